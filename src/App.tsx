@@ -4,12 +4,23 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { Header, Footer, Settings, DropZone, FileList, DataViewer, ExportPanel } from './components';
-import { parsePPTX, parsePPT } from './lib';
+import { Header, Footer, Settings, DropZone, FileList, DataViewer, ExportPanel, PasswordPrompt } from './components';
+import { parsePPTX, parsePPT, isOpenXmlFile, PasswordRequiredError, InvalidPasswordError, UnsupportedEncryptionError } from './lib';
 import type { ThemeId } from './styles/themes';
 import { THEMES } from './styles/themes';
 import type { ExtractedPresentation } from './types';
 import { useI18n } from './context';
+import type { Translations } from './i18n';
+
+function parseFile(file: File, password?: string): Promise<ExtractedPresentation> {
+  return isOpenXmlFile(file.name) ? parsePPTX(file, password) : parsePPT(file, password);
+}
+
+// Files with an encryption method that can't be decrypted get a message of their own
+function describeError(file: File, err: unknown, t: Translations): string {
+  if (err instanceof UnsupportedEncryptionError) return `${t.unsupportedEncryption}: ${file.name}`;
+  return `${t.errorProcessing}: ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`;
+}
 
 function AppContent() {
   const { t } = useI18n();
@@ -20,6 +31,9 @@ function AppContent() {
   const [viewingPresentation, setViewingPresentation] = useState<ExtractedPresentation | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  // Encrypted files waiting for their password; the first one is prompted for
+  const [lockedFiles, setLockedFiles] = useState<File[]>([]);
+  const [invalidPassword, setInvalidPassword] = useState(false);
 
   // Load theme from localStorage
   useEffect(() => {
@@ -49,20 +63,52 @@ function AppContent() {
       setError(null);
 
       try {
-        const isPPTX = file.name.toLowerCase().endsWith('.pptx');
-        const data = isPPTX 
-          ? await parsePPTX(file) 
-          : await parsePPT(file);
-        
+        const data = await parseFile(file);
         setExtractedData(prev => [...prev, data]);
       } catch (err) {
+        if (err instanceof PasswordRequiredError) {
+          setLockedFiles(prev => [...prev, file]);
+          continue;
+        }
         console.error(`Error processing ${file.name}:`, err);
-        setError(`${t.errorProcessing}: ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        setError(describeError(file, err, t));
       }
     }
     setProcessingFile(null);
   }, [extractedData, t]);
 
+  // Retry the first locked file with a password; a wrong one keeps the prompt open
+  const handleUnlock = useCallback(async (password: string) => {
+    const file = lockedFiles[0];
+    if (!file) return;
+    
+    setProcessingFile(file.name);
+    try {
+      const data = await parseFile(file, password);
+      setExtractedData(prev => [...prev, data]);
+      setLockedFiles(prev => prev.slice(1));
+      setInvalidPassword(false);
+    } catch (err) {
+      if (err instanceof InvalidPasswordError) {
+        setInvalidPassword(true);
+      } else {
+        console.error(`Error processing ${file.name}:`, err);
+        setError(describeError(file, err, t));
+        setLockedFiles(prev => prev.slice(1));
+        setInvalidPassword(false);
+      }
+    }
+    setProcessingFile(null);
+  }, [lockedFiles, t]);
+
+  // Skipping a locked file removes it, so it can be added again later
+  const handleCancelUnlock = useCallback(() => {
+    const file = lockedFiles[0];
+    setLockedFiles(prev => prev.slice(1));
+    setInvalidPassword(false);
+    setFiles(prev => prev.filter(f => f !== file));
+  }, [lockedFiles]);
+
   // Handle file selection
   const handleFilesSelected = useCallback((selectedFiles: File[]) => {
     const newFiles = selectedFiles.filter(
@@ -80,12 +126,15 @@ function AppContent() {
     const fileToRemove = files[index];
     setFiles(prev => prev.filter((_, i) => i !== index));
     setExtractedData(prev => prev.filter(p => p.fileName !== fileToRemove.name));
+    setLockedFiles(prev => prev.filter(f => f !== fileToRemove));
   }, [files]);
 
   // Handle clear all
   const handleClearAll = useCallback(() => {
     setFiles([]);
     setExtractedData([]);
+    setLockedFiles([]);
+    setInvalidPassword(false);
     setError(null);
   }, []);
 
@@ -160,7 +209,7 @@ function AppContent() {
                 </div>
                 <h3 className="font-semibold mb-1">{t.exportFormat}</h3>
                 <p className="text-sm text-[rgb(var(--muted-foreground))]">
-                  JSON, XML, CSV, TXT, HTML, PDF
+                  JSON, XML, CSV, TXT, Markdown, HTML, PDF
                 </p>
               </div>
               <div className="card p-4 text-center">
@@ -187,6 +236,18 @@ function AppContent() {
         onThemeChange={setTheme}
       />
 
+      {/* Password Prompt */}
+      {lockedFiles.length > 0 && (
+        <PasswordPrompt
+          key={lockedFiles[0].name}
+          fileName={lockedFiles[0].name}
+          invalidPassword={invalidPassword}
+          isProcessing={processingFile === lockedFiles[0].name}
+          onSubmit={handleUnlock}
+          onCancel={handleCancelUnlock}
+        />
+      )}
+
       {/* Data Viewer Modal */}
       {viewingPresentation && (
         <DataViewer
@@ -2,9 +2,9 @@
  * Data Viewer Modal - Display extracted presentation data
  */
 
-import { X, FileText, User, Calendar, Layers, MessageSquare, Table2, Image, Palette, ChevronDown, ChevronRight } from 'lucide-react';
+import { X, FileText, User, Calendar, Layers, MessageSquare, MessagesSquare, Table2, Image, Paperclip, Palette, Sparkles, Film, FileCode, TriangleAlert, ChevronDown, ChevronRight } from 'lucide-react';
 import { useState } from 'react';
-import type { ExtractedPresentation, SlideContent } from '../types';
+import type { ExtractedPresentation, SlideContent, CommentInfo, PageSize, SlideShowSettings } from '../types';
 
 interface DataViewerProps {
   presentation: ExtractedPresentation;
@@ -13,7 +13,17 @@ interface DataViewerProps {
 
 export function DataViewer({ presentation, onClose }: DataViewerProps) {
   const [expandedSlides, setExpandedSlides] = useState<Set<number>>(new Set([1]));
-  const [activeTab, setActiveTab] = useState<'slides' | 'metadata' | 'themes' | 'media'>('slides');
+  const [activeTab, setActiveTab] = useState<'slides' | 'metadata' | 'themes' | 'media' | 'comments' | 'macros'>('slides');
+
+  const commentedSlides = presentation.slides.filter(s => s.comments && s.comments.length > 0);
+  const commentCount = commentedSlides.reduce((sum, s) => sum + (s.comments?.length || 0), 0);
+  const embeddings = presentation.embeddings || [];
+  const mediaCount = presentation.media.length + embeddings.length;
+  const pictures = presentation.slides.flatMap(slide => slide.shapes
+    .filter(shape => shape.kind === 'picture')
+    .map(shape => ({ slideNumber: slide.slideNumber, shape })));
+  const macros = presentation.macros;
+  const properties = presentation.properties;
 
   const toggleSlide = (slideNum: number) => {
     const newExpanded = new Set(expandedSlides);
@@ -50,6 +60,23 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
     return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
   };
 
+  // EMU to inches
+  const formatPageSize = (size: PageSize | undefined): string => {
+    if (!size) return '';
+    const inches = (emu: number) => parseFloat((emu / 914400).toFixed(2));
+    return `${inches(size.width)} × ${inches(size.height)} in${size.type ? ` (${size.type})` : ''}`;
+  };
+
+  const formatShowSettings = (show: SlideShowSettings | undefined): string => {
+    if (!show) return '';
+    const parts: string[] = [show.mode];
+    if (show.loop) parts.push('loop');
+    if (show.slideRange) parts.push(`slides ${show.slideRange.start}-${show.slideRange.end}`);
+    if (show.customShow) parts.push(`custom show "${show.customShow}"`);
+    if (show.penColor) parts.push(`pen ${show.penColor}`);
+    return parts.join(', ');
+  };
+
   return (
     <>
       <div className="modal-overlay" onClick={onClose} />
@@ -85,6 +112,8 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
               { id: 'metadata', label: 'Metadata', icon: FileText },
               { id: 'themes', label: 'Themes', icon: Palette },
               { id: 'media', label: 'Media', icon: Image },
+              { id: 'comments', label: 'Comments', icon: MessagesSquare },
+              ...(macros ? [{ id: 'macros', label: 'Macros', icon: FileCode }] : []),
             ].map(tab => {
               const Icon = tab.icon;
               return (
@@ -101,8 +130,14 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                 >
                   <Icon className="w-4 h-4" />
                   {tab.label}
-                  {tab.id === 'media' && presentation.media.length > 0 && (
-                    <span className="badge">{presentation.media.length}</span>
+                  {tab.id === 'media' && mediaCount > 0 && (
+                    <span className="badge">{mediaCount}</span>
+                  )}
+                  {tab.id === 'comments' && commentCount > 0 && (
+                    <span className="badge">{commentCount}</span>
+                  )}
+                  {tab.id === 'macros' && macros && (
+                    <span className="badge">{macros.modules.length}</span>
                   )}
                 </button>
               );
@@ -122,13 +157,19 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                   </button>
                 </div>
 
-                {presentation.slides.map(slide => (
-                  <SlideCard
-                    key={slide.slideNumber}
-                    slide={slide}
-                    expanded={expandedSlides.has(slide.slideNumber)}
-                    onToggle={() => toggleSlide(slide.slideNumber)}
-                  />
+                {presentation.slides.map((slide, i) => (
+                  <div key={slide.slideNumber} className="space-y-3">
+                    {slide.section && slide.section !== presentation.slides[i - 1]?.section && (
+                      <h4 className="text-sm font-semibold text-[rgb(var(--muted-foreground))] pt-2">
+                        {slide.section}
+                      </h4>
+                    )}
+                    <SlideCard
+                      slide={slide}
+                      expanded={expandedSlides.has(slide.slideNumber)}
+                      onToggle={() => toggleSlide(slide.slideNumber)}
+                    />
+                  </div>
                 ))}
               </div>
             )}
@@ -151,6 +192,15 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                   <MetadataItem icon={FileText} label="Total Slides" value={String(presentation.metadata.totalSlides)} />
                   <MetadataItem icon={FileText} label="Total Words" value={String(presentation.metadata.totalWords)} />
                   <MetadataItem icon={FileText} label="Format" value={presentation.metadata.presentationFormat} />
+                  {properties && (
+                    <>
+                      <MetadataItem icon={FileText} label="Slide Size" value={formatPageSize(properties.slideSize)} />
+                      <MetadataItem icon={FileText} label="Notes Size" value={formatPageSize(properties.notesSize)} />
+                      <MetadataItem icon={FileText} label="First Slide Number" value={String(properties.firstSlideNumber)} />
+                      <MetadataItem icon={FileText} label="Direction" value={properties.rightToLeft ? 'Right to left' : 'Left to right'} />
+                      <MetadataItem icon={FileText} label="Slide Show" value={formatShowSettings(properties.show)} />
+                    </>
+                  )}
                 </div>
 
                 {Object.keys(presentation.customProperties).length > 0 && (
@@ -180,24 +230,28 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                     <div key={index} className="p-4 rounded-lg bg-[rgb(var(--secondary))]">
                       <h4 className="font-semibold mb-3">{theme.name}</h4>
                       
-                      {theme.fonts.length > 0 && (
+                      {(theme.fonts.major || theme.fonts.minor) && (
                         <div className="mb-3">
-                          <p className="text-sm text-[rgb(var(--muted-foreground))] mb-1">Fonts</p>
+                          <p className="text-sm text-[rgb(var(--muted-foreground))] mb-1">
+                            Fonts{theme.fontScheme && ` (${theme.fontScheme})`}
+                          </p>
                           <div className="flex flex-wrap gap-2">
-                            {theme.fonts.map((font, i) => (
-                              <span key={i} className="badge">{font}</span>
-                            ))}
+                            {theme.fonts.major && <span className="badge">Major: {theme.fonts.major}</span>}
+                            {theme.fonts.minor && <span className="badge">Minor: {theme.fonts.minor}</span>}
                           </div>
                         </div>
                       )}
 
-                      {theme.colors.length > 0 && (
+                      {Object.keys(theme.colors).length > 0 && (
                         <div>
-                          <p className="text-sm text-[rgb(var(--muted-foreground))] mb-1">Colors</p>
+                          <p className="text-sm text-[rgb(var(--muted-foreground))] mb-1">
+                            Colors{theme.colorScheme && ` (${theme.colorScheme})`}
+                          </p>
                           <div className="flex flex-wrap gap-2">
-                            {theme.colors.map((color, i) => (
-                              <span key={i} className="text-xs p-1 px-2 rounded bg-[rgb(var(--background))]">
-                                {color}
+                            {Object.entries(theme.colors).map(([slot, color]) => (
+                              <span key={slot} className="flex items-center gap-1 text-xs p-1 px-2 rounded bg-[rgb(var(--background))]">
+                                <span className="w-3 h-3 rounded-sm border" style={{ backgroundColor: color }} />
+                                {slot}: {color}
                               </span>
                             ))}
                           </div>
@@ -207,7 +261,33 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                   ))
                 )}
 
-                {presentation.masterSlides.length > 0 && (
+                {presentation.masters && presentation.masters.length > 0 ? (
+                  <div>
+                    <h3 className="font-semibold mb-3">Masters and Layouts</h3>
+                    <div className="space-y-3">
+                      {presentation.masters.map((master, i) => (
+                        <div key={i} className="p-4 rounded-lg bg-[rgb(var(--secondary))]">
+                          <h4 className="font-semibold">{master.name}</h4>
+                          <p className="text-xs text-[rgb(var(--muted-foreground))] mb-2">
+                            {master.theme && `Theme: ${master.theme} • `}
+                            {master.placeholders.length} placeholders • {master.layouts.length} layouts
+                          </p>
+                          <div className="space-y-1">
+                            {master.layouts.map((layout, j) => (
+                              <div key={j} className="flex items-center gap-2 text-sm">
+                                <span className="font-medium">{layout.name}</span>
+                                {layout.type && <span className="badge">{layout.type}</span>}
+                                <span className="text-xs text-[rgb(var(--muted-foreground))]">
+                                  {layout.slides.length > 0 ? `Slides ${layout.slides.join(', ')}` : 'Unused'}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : presentation.masterSlides.length > 0 && (
                   <div>
                     <h3 className="font-semibold mb-3">Master Slides</h3>
                     <div className="flex flex-wrap gap-2">
@@ -217,12 +297,42 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                     </div>
                   </div>
                 )}
+
+                {presentation.fonts && (presentation.fonts.used.length > 0 || presentation.fonts.embedded.length > 0) && (
+                  <div>
+                    <h3 className="font-semibold mb-3">Fonts</h3>
+                    <div className="space-y-2">
+                      {presentation.fonts.used.map((font, i) => (
+                        <div key={i} className="p-3 rounded-lg bg-[rgb(var(--secondary))]">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium" style={{ fontFamily: font.typeface }}>{font.typeface}</span>
+                            {font.embedded && <span className="badge">Embedded</span>}
+                            {font.themeFont === false && <span className="badge">Not a theme font</span>}
+                          </div>
+                          <p className="text-xs text-[rgb(var(--muted-foreground))]">
+                            {font.runs} runs • {font.scripts.join(', ')} •{' '}
+                            {Object.entries(font.slides).map(([slide, runs]) => `Slide ${slide} (${runs})`).join(', ')}
+                          </p>
+                        </div>
+                      ))}
+                      {presentation.fonts.embedded.filter(font => !presentation.fonts!.used.some(used => used.typeface === font.typeface)).map((font, i) => (
+                        <div key={i} className="p-3 rounded-lg bg-[rgb(var(--secondary))]">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{font.typeface}</span>
+                            <span className="badge">Embedded</span>
+                          </div>
+                          <p className="text-xs text-[rgb(var(--muted-foreground))]">Not used by any text • {font.styles.join(', ')}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
             {activeTab === 'media' && (
               <div className="space-y-3">
-                {presentation.media.length === 0 ? (
+                {mediaCount === 0 ? (
                   <p className="text-center text-[rgb(var(--muted-foreground))] py-8">
                     No media files found in this presentation
                   </p>
@@ -239,6 +349,7 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                         <p className="font-medium">{media.name}</p>
                         <p className="text-xs text-[rgb(var(--muted-foreground))]">
                           {media.type} • {formatFileSize(media.size)} • .{media.extension}
+                          {presentation.mediaUsage?.[media.name] && ` • Slides ${presentation.mediaUsage[media.name].join(', ')}`}
                         </p>
                       </div>
                       {media.data && media.type === 'image' && (
@@ -251,6 +362,103 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
                     </div>
                   ))
                 )}
+
+                {embeddings.map((embedded, index) => (
+                  <div key={`embedded-${index}`} className="flex items-center gap-3 p-3 rounded-lg bg-[rgb(var(--secondary))]">
+                    <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-amber-500">
+                      <Paperclip className="w-5 h-5 text-white" />
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-medium">{embedded.name}</p>
+                      <p className="text-xs text-[rgb(var(--muted-foreground))]">
+                        {embedded.progId || embedded.kind} • {formatFileSize(embedded.size)} • .{embedded.extension}
+                        {embedded.slides.length > 0 && ` • Slides ${embedded.slides.join(', ')}`}
+                        {embedded.presentation && ` • ${embedded.presentation.slides.length} embedded slides`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+
+                {pictures.length > 0 && (
+                  <div className="pt-2">
+                    <h4 className="font-semibold mb-2">Pictures</h4>
+                    <div className="space-y-2">
+                      {pictures.map(({ slideNumber, shape }, index) => (
+                        <div key={`picture-${index}`} className="p-3 rounded-lg bg-[rgb(var(--secondary))] text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{shape.name || 'Picture'}</span>
+                            <span className="text-xs text-[rgb(var(--muted-foreground))]">Slide {slideNumber}</span>
+                            {shape.decorative && <span className="badge">Decorative</span>}
+                          </div>
+                          {shape.title && <p className="mt-1">{shape.title}</p>}
+                          {shape.altText ? (
+                            <p className="mt-1 text-[rgb(var(--muted-foreground))]">{shape.altText}</p>
+                          ) : !shape.decorative && (
+                            <p className="mt-1 flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                              <TriangleAlert className="w-4 h-4 shrink-0" />
+                              No alt text
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'comments' && (
+              <div className="space-y-4">
+                {commentedSlides.length === 0 ? (
+                  <p className="text-center text-[rgb(var(--muted-foreground))] py-8">
+                    No comments found in this presentation
+                  </p>
+                ) : (
+                  commentedSlides.map(slide => (
+                    <div key={slide.slideNumber}>
+                      <h4 className="font-semibold mb-2">
+                        Slide {slide.slideNumber}: {slide.title || 'Untitled Slide'}
+                      </h4>
+                      <div className="space-y-2">
+                        {slide.comments!.map((comment, i) => (
+                          <CommentCard key={i} comment={comment} formatDate={formatDate} />
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {activeTab === 'macros' && macros && (
+              <div className="space-y-4">
+                <p className="text-sm text-[rgb(var(--muted-foreground))]">
+                  VBA project {macros.name && <span className="font-medium text-[rgb(var(--foreground))]">{macros.name}</span>} • {macros.source} • {macros.modules.length} modules
+                </p>
+
+                {macros.autoExec.length > 0 && (
+                  <div className="p-3 rounded bg-amber-50 dark:bg-amber-900/20 border-l-4 border-amber-500 text-sm flex items-start gap-2">
+                    <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0 text-amber-500" />
+                    <span>Runs automatically: {macros.autoExec.join(', ')}</span>
+                  </div>
+                )}
+
+                {macros.modules.map((module, index) => (
+                  <div key={index}>
+                    <h4 className="font-semibold mb-2 flex items-center gap-2">
+                      {module.name}
+                      <span className="badge">{module.type === 'class' ? 'Class module' : 'Module'}</span>
+                      {module.autoExec && <span className="badge">Auto-exec</span>}
+                    </h4>
+                    {module.code ? (
+                      <pre className="p-3 rounded-lg bg-[rgb(var(--secondary))] text-xs overflow-x-auto">
+                        {module.code}
+                      </pre>
+                    ) : (
+                      <p className="text-sm text-[rgb(var(--muted-foreground))]">Source code not available</p>
+                    )}
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -260,6 +468,37 @@ export function DataViewer({ presentation, onClose }: DataViewerProps) {
   );
 }
 
+function CommentCard({ 
+  comment, 
+  formatDate 
+}: { 
+  comment: CommentInfo; 
+  formatDate: (dateStr: string) => string;
+}) {
+  return (
+    <div className="p-3 rounded-lg bg-[rgb(var(--secondary))]">
+      <div className="flex items-center gap-2 mb-1">
+        <div className="w-7 h-7 rounded-full bg-[rgb(var(--primary))] text-[rgb(var(--primary-foreground))] flex items-center justify-center text-xs font-semibold shrink-0">
+          {comment.initials || comment.author.charAt(0)}
+        </div>
+        <span className="font-medium text-sm">{comment.author}</span>
+        {comment.date && (
+          <span className="text-xs text-[rgb(var(--muted-foreground))]">{formatDate(comment.date)}</span>
+        )}
+        {comment.resolved && <span className="badge">Resolved</span>}
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{comment.text}</p>
+      {comment.replies && comment.replies.length > 0 && (
+        <div className="mt-2 pl-4 border-l-2 border-[rgb(var(--border))] space-y-2">
+          {comment.replies.map((reply, i) => (
+            <CommentCard key={i} comment={reply} formatDate={formatDate} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function SlideCard({ 
   slide, 
   expanded, 
@@ -284,12 +523,17 @@ function SlideCard({
           {slide.slideNumber}
         </div>
         <div className="flex-1 min-w-0">
-          <p className="font-medium truncate">{slide.title || 'Untitled Slide'}</p>
+          <div className="flex items-center gap-2 min-w-0">
+            <p className="font-medium truncate">{slide.title || 'Untitled Slide'}</p>
+            {slide.hidden && <span className="badge shrink-0">Hidden</span>}
+          </div>
           <p className="text-xs text-[rgb(var(--muted-foreground))]">
             {slide.textContent.length} text blocks
             {slide.tables.length > 0 && ` • ${slide.tables.length} tables`}
             {slide.shapes.length > 0 && ` • ${slide.shapes.length} shapes`}
             {slide.notes && ' • Has notes'}
+            {slide.animations && slide.animations.length > 0 && ` • ${slide.animations.length} animations`}
+            {slide.media && slide.media.length > 0 && ` • ${slide.media.length} media`}
           </p>
         </div>
       </button>
@@ -334,21 +578,25 @@ function SlideCard({
                 <div key={i} className="overflow-x-auto mt-2">
                   <table className="w-full text-sm border-collapse">
                     <tbody>
-                      {table.cells.map((row, ri) => (
-                        <tr key={ri}>
-                          {row.map((cell, ci) => (
-                            <td
-                              key={ci}
-                              className={`
-                                p-2 border border-[rgb(var(--border))]
-                                ${ri === 0 ? 'bg-[rgb(var(--accent))] font-medium' : 'bg-[rgb(var(--background))]'}
-                              `}
-                            >
-                              {cell}
-                            </td>
-                          ))}
-                        </tr>
-                      ))}
+                      {(table.grid || table.cells.map(row => row.map(text => ({ text, colSpan: 1, rowSpan: 1, merged: false }))))
+                        .map((row, ri) => (
+                          <tr key={ri}>
+                            {row.map((cell, ci) => !cell.merged && (
+                              <td
+                                key={ci}
+                                colSpan={cell.colSpan}
+                                rowSpan={cell.rowSpan}
+                                className={`
+                                  p-2 border border-[rgb(var(--border))]
+                                  ${ri === 0 && (table.headerRow || !table.grid) ? 'bg-[rgb(var(--accent))] font-medium' : 'bg-[rgb(var(--background))]'}
+                                  ${ci === 0 && table.firstColumn ? 'font-medium' : ''}
+                                `}
+                              >
+                                {cell.text}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
                     </tbody>
                   </table>
                 </div>
@@ -356,6 +604,66 @@ function SlideCard({
             </div>
           )}
 
+          {/* Transition and Animations */}
+          {(slide.transition || (slide.animations && slide.animations.length > 0)) && (
+            <div className="mt-4">
+              <h5 className="text-sm font-medium text-[rgb(var(--muted-foreground))] mb-2 flex items-center gap-2">
+                <Sparkles className="w-4 h-4" />
+                Transition and Animations
+              </h5>
+              {slide.transition && (
+                <p className="text-sm mb-2">
+                  Transition: <span className="font-medium">{slide.transition.type}</span>
+                  {slide.transition.speed && ` • ${slide.transition.speed}`}
+                  {slide.transition.advanceOnClick ? ' • advances on click' : ' • no click advance'}
+                  {slide.transition.advanceAfter !== undefined && ` • auto-advance after ${slide.transition.advanceAfter / 1000}s`}
+                </p>
+              )}
+              {slide.animations && slide.animations.length > 0 && (
+                <ol className="space-y-1 text-sm">
+                  {slide.animations.map((step, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <span className="badge shrink-0">
+                        {step.trigger === 'onClick' ? `Click ${step.click}` : step.trigger === 'onShapeClick' ? 'Trigger' : step.trigger === 'withPrevious' ? 'With previous' : 'After previous'}
+                      </span>
+                      <span>
+                        {step.effect} ({step.effectClass})
+                        {' on '}{step.shapeName || (step.shapeId !== undefined ? `shape ${step.shapeId}` : 'slide')}
+                        {step.delay > 0 && `, delay ${step.delay / 1000}s`}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+
+          {/* Video and Audio */}
+          {slide.media && slide.media.length > 0 && (
+            <div className="mt-4">
+              <h5 className="text-sm font-medium text-[rgb(var(--muted-foreground))] mb-2 flex items-center gap-2">
+                <Film className="w-4 h-4" />
+                Video and Audio
+              </h5>
+              <ul className="space-y-1 text-sm">
+                {slide.media.map((usage, i) => (
+                  <li key={i} className="flex items-center gap-2 min-w-0">
+                    <span className="badge shrink-0">{usage.kind}</span>
+                    {usage.external && <span className="badge shrink-0">External link</span>}
+                    <span className="truncate" title={usage.target}>
+                      {usage.external && usage.target ? usage.target : usage.name}
+                      {usage.posterFrame && ` • poster ${usage.posterFrame}`}
+                      {usage.trimStart !== undefined && ` • trim start ${usage.trimStart / 1000}s`}
+                      {usage.trimEnd !== undefined && ` • trim end ${usage.trimEnd / 1000}s`}
+                      {usage.startAt !== undefined && ` • starts at ${usage.startAt / 1000}s`}
+                      {usage.startDelay !== undefined && ` • delay ${usage.startDelay / 1000}s`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Shapes */}
           {slide.shapes.length > 0 && (
             <div className="mt-4">
@@ -363,7 +671,7 @@ function SlideCard({
               <div className="flex flex-wrap gap-2">
                 {slide.shapes.filter(s => s.text).map((shape, i) => (
                   <span key={i} className="badge">
-                    {shape.type}: {shape.text.substring(0, 50)}{shape.text.length > 50 ? '...' : ''}
+                    {shape.placeholder || shape.type}: {shape.text.substring(0, 50)}{shape.text.length > 50 ? '...' : ''}
                   </span>
                 ))}
               </div>
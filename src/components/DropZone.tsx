@@ -4,6 +4,7 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { Upload, FileUp, X, AlertCircle } from 'lucide-react';
+import { SUPPORTED_EXTENSIONS, getFileType } from '../lib';
 
 interface DropZoneProps {
   onFilesSelected: (files: File[]) => void;
@@ -20,8 +21,7 @@ export function DropZone({ onFilesSelected, isProcessing }: DropZoneProps) {
     const invalidFiles: string[] = [];
 
     Array.from(files).forEach(file => {
-      const ext = file.name.toLowerCase().split('.').pop();
-      if (ext === 'ppt' || ext === 'pptx') {
+      if (getFileType(file.name)) {
         validFiles.push(file);
       } else {
         invalidFiles.push(file.name);
@@ -29,7 +29,7 @@ export function DropZone({ onFilesSelected, isProcessing }: DropZoneProps) {
     });
 
     if (invalidFiles.length > 0) {
-      setError(`Invalid files: ${invalidFiles.join(', ')}. Only .ppt and .pptx files are supported.`);
+      setError(`Invalid files: ${invalidFiles.join(', ')}. Supported files: ${SUPPORTED_EXTENSIONS.join(', ')}.`);
     } else {
       setError(null);
     }
@@ -105,7 +105,7 @@ export function DropZone({ onFilesSelected, isProcessing }: DropZoneProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".ppt,.pptx"
+          accept={SUPPORTED_EXTENSIONS.join(',')}
           multiple
           onChange={handleFileInputChange}
           className="hidden"
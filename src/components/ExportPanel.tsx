@@ -15,17 +15,19 @@ import {
   Loader2,
   Check
 } from 'lucide-react';
-import type { ExtractedPresentation } from '../types';
+import type { ExtractedPresentation, ExportOptions } from '../types';
 import { 
   exportToJSON, 
   exportToXML, 
   exportToCSV, 
   exportToText, 
+  exportToMarkdown,
   exportToHTML,
   exportToPDF,
   downloadFile,
   downloadMediaAsZip,
-  downloadAllAsZip
+  downloadAllAsZip,
+  stripExtension
 } from '../lib';
 
 interface ExportPanelProps {
@@ -37,6 +39,7 @@ const exportFormats = [
   { id: 'xml', name: 'XML', icon: FileCode, description: 'XML format' },
   { id: 'csv', name: 'CSV', icon: FileSpreadsheet, description: 'Spreadsheet format' },
   { id: 'txt', name: 'Text', icon: FileText, description: 'Plain text' },
+  { id: 'md', name: 'Markdown', icon: FileText, description: 'Text with LaTeX equations' },
   { id: 'html', name: 'HTML', icon: Globe, description: 'Web page' },
   { id: 'pdf', name: 'PDF', icon: FileText, description: 'Document' },
 ];
@@ -45,9 +48,16 @@ export function ExportPanel({ presentations }: ExportPanelProps) {
   const [selectedFormats, setSelectedFormats] = useState<Set<string>>(new Set(['json']));
   const [isExporting, setIsExporting] = useState(false);
   const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [includeHiddenSlides, setIncludeHiddenSlides] = useState(true);
+  const [includeFooters, setIncludeFooters] = useState(true);
 
-  const hasMedia = presentations.some(p => p.media.length > 0);
-  const totalMedia = presentations.reduce((acc, p) => acc + p.media.length, 0);
+  const hasMedia = presentations.some(p => p.media.length > 0 || (p.embeddings?.length ?? 0) > 0);
+  const hasHiddenSlides = presentations.some(p => p.slides.some(s => s.hidden));
+  const hasFooters = presentations.some(p => p.slides.some(s => s.shapes.some(shape =>
+    shape.placeholder === 'dt' || shape.placeholder === 'ftr' || shape.placeholder === 'sldNum'
+  )));
+  const exportOptions: ExportOptions = { includeHiddenSlides, includeFooters };
+  const totalMedia = presentations.reduce((acc, p) => acc + p.media.length + (p.embeddings?.length ?? 0), 0);
 
   const toggleFormat = (formatId: string) => {
     const newSelected = new Set(selectedFormats);
@@ -64,7 +74,7 @@ export function ExportPanel({ presentations }: ExportPanelProps) {
     const timestamp = new Date().toISOString().split('T')[0];
     if (presentations.length === 1) {
       // Single file: use original filename without extension
-      const baseName = presentations[0].fileName.replace(/\.(pptx?|ppt)$/i, '');
+      const baseName = stripExtension(presentations[0].fileName);
       return `${baseName}-export-${timestamp}.${extension}`;
     } else {
       // Multiple files: use generic name
@@ -78,22 +88,25 @@ export function ExportPanel({ presentations }: ExportPanelProps) {
     try {
       switch (formatId) {
         case 'json':
-          downloadFile(exportToJSON(presentations), getExportFilename('json'), 'application/json');
+          downloadFile(exportToJSON(presentations, exportOptions), getExportFilename('json'), 'application/json');
           break;
         case 'xml':
-          downloadFile(exportToXML(presentations), getExportFilename('xml'), 'application/xml');
+          downloadFile(exportToXML(presentations, exportOptions), getExportFilename('xml'), 'application/xml');
           break;
         case 'csv':
-          downloadFile(exportToCSV(presentations), getExportFilename('csv'), 'text/csv');
+          downloadFile(exportToCSV(presentations, exportOptions), getExportFilename('csv'), 'text/csv');
           break;
         case 'txt':
-          downloadFile(exportToText(presentations), getExportFilename('txt'), 'text/plain');
+          downloadFile(exportToText(presentations, exportOptions), getExportFilename('txt'), 'text/plain');
+          break;
+        case 'md':
+          downloadFile(exportToMarkdown(presentations, exportOptions), getExportFilename('md'), 'text/markdown');
           break;
         case 'html':
-          downloadFile(exportToHTML(presentations), getExportFilename('html'), 'text/html');
+          downloadFile(exportToHTML(presentations, exportOptions), getExportFilename('html'), 'text/html');
           break;
         case 'pdf':
-          const pdf = exportToPDF(presentations);
+          const pdf = exportToPDF(presentations, exportOptions);
           pdf.save(getExportFilename('pdf'));
           break;
       }
@@ -109,7 +122,7 @@ export function ExportPanel({ presentations }: ExportPanelProps) {
   const handleExportMedia = async () => {
     setIsExporting(true);
     try {
-      await downloadMediaAsZip(presentations);
+      await downloadMediaAsZip(presentations, exportOptions);
       setExportSuccess('media');
       setTimeout(() => setExportSuccess(null), 2000);
     } catch (error) {
@@ -124,7 +137,7 @@ export function ExportPanel({ presentations }: ExportPanelProps) {
     
     setIsExporting(true);
     try {
-      await downloadAllAsZip(presentations, Array.from(selectedFormats));
+      await downloadAllAsZip(presentations, Array.from(selectedFormats), exportOptions);
       setExportSuccess('all');
       setTimeout(() => setExportSuccess(null), 2000);
     } catch (error) {
@@ -177,6 +190,30 @@ export function ExportPanel({ presentations }: ExportPanelProps) {
         })}
       </div>
 
+      {/* Options */}
+      {hasHiddenSlides && (
+        <label className="flex items-center gap-2 text-sm mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeHiddenSlides}
+            onChange={e => setIncludeHiddenSlides(e.target.checked)}
+            disabled={isExporting}
+          />
+          Include hidden slides
+        </label>
+      )}
+      {hasFooters && (
+        <label className="flex items-center gap-2 text-sm mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeFooters}
+            onChange={e => setIncludeFooters(e.target.checked)}
+            disabled={isExporting}
+          />
+          Include footers, dates and slide numbers
+        </label>
+      )}
+
       {/* Actions */}
       <div className="flex flex-wrap gap-2">
         {/* Individual exports */}
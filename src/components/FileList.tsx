@@ -4,6 +4,7 @@
 
 import { X, FileType, Loader2, CheckCircle } from 'lucide-react';
 import type { ExtractedPresentation } from '../types';
+import { isOpenXmlFile } from '../lib';
 
 interface FileListProps {
   files: File[];
@@ -51,7 +52,7 @@ export function FileList({
         {files.map((file, index) => {
           const status = getFileStatus(file.name);
           const extracted = extractedData.find(p => p.fileName === file.name);
-          const isPPTX = file.name.toLowerCase().endsWith('.pptx');
+          const isPPTX = isOpenXmlFile(file.name);
 
           return (
             <div
@@ -0,0 +1,75 @@
+/**
+ * Password Prompt Component - Asks for the password of an encrypted file
+ */
+
+import { useState } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+import { useI18n } from '../context';
+
+interface PasswordPromptProps {
+  fileName: string;
+  invalidPassword: boolean;
+  isProcessing: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export function PasswordPrompt({
+  fileName,
+  invalidPassword,
+  isProcessing,
+  onSubmit,
+  onCancel
+}: PasswordPromptProps) {
+  const { t } = useI18n();
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password && !isProcessing) onSubmit(password);
+  };
+
+  return (
+    <>
+      <div className="modal-overlay" onClick={onCancel} />
+      <div className="modal-content w-full max-w-md animate-slide-up">
+        <form onSubmit={handleSubmit} className="card card-elevated p-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-[rgb(var(--primary))] flex items-center justify-center shrink-0">
+              <Lock className="w-5 h-5 text-[rgb(var(--primary-foreground))]" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="font-semibold text-[rgb(var(--foreground))]">{t.passwordRequired}</h2>
+              <p className="text-xs text-[rgb(var(--muted-foreground))] truncate">{fileName}</p>
+            </div>
+          </div>
+
+          <p className="text-sm text-[rgb(var(--muted-foreground))]">{t.passwordPrompt}</p>
+
+          <input
+            type="password"
+            className="input w-full"
+            placeholder={t.password}
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoFocus
+          />
+
+          {invalidPassword && (
+            <p className="text-sm text-[rgb(var(--destructive))]">{t.invalidPassword}</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onCancel} className="btn btn-ghost">
+              {t.cancel}
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={!password || isProcessing}>
+              {isProcessing && <Loader2 className="w-4 h-4 animate-spin" />}
+              {t.unlock}
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -5,3 +5,4 @@ export { DropZone } from './DropZone';
 export { FileList } from './FileList';
 export { DataViewer } from './DataViewer';
 export { ExportPanel } from './ExportPanel';
+export { PasswordPrompt } from './PasswordPrompt';
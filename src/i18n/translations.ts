@@ -72,6 +72,14 @@ export interface Translations {
   noDataExtracted: string;
   exportSuccess: string;
   
+  // Password-protected files
+  passwordRequired: string;
+  passwordPrompt: string;
+  password: string;
+  invalidPassword: string;
+  unsupportedEncryption: string;
+  unlock: string;
+  
   // Footer
   madeWith: string;
   by: string;
@@ -100,7 +108,7 @@ const en: Translations = {
   // File handling
   dropFiles: 'Drop PowerPoint files here',
   selectFiles: 'Select Files',
-  supportedFormats: 'Supports PPT & PPTX',
+  supportedFormats: 'Supports PPT & PPTX, including shows, templates and macro-enabled files',
   processing: 'Processing...',
   processed: 'Processed',
   noFiles: 'No files uploaded',
@@ -146,6 +154,14 @@ const en: Translations = {
   noDataExtracted: 'No data could be extracted',
   exportSuccess: 'Export successful',
   
+  // Password-protected files
+  passwordRequired: 'Password required',
+  passwordPrompt: 'This file is encrypted. Enter its password to extract it; it is decrypted in your browser.',
+  password: 'Password',
+  invalidPassword: 'Incorrect password, please try again',
+  unsupportedEncryption: 'This file uses an encryption method that cannot be decrypted here',
+  unlock: 'Unlock',
+  
   // Footer
   madeWith: 'Made with',
   by: 'by',
@@ -174,7 +190,7 @@ const es: Translations = {
   // File handling
   dropFiles: 'Suelta archivos PowerPoint aquí',
   selectFiles: 'Seleccionar Archivos',
-  supportedFormats: 'Soporta PPT y PPTX',
+  supportedFormats: 'Soporta PPT y PPTX, incluidas presentaciones con diapositivas, plantillas y archivos con macros',
   processing: 'Procesando...',
   processed: 'Procesado',
   noFiles: 'No hay archivos subidos',
@@ -220,6 +236,14 @@ const es: Translations = {
   noDataExtracted: 'No se pudieron extraer datos',
   exportSuccess: 'Exportación exitosa',
   
+  // Password-protected files
+  passwordRequired: 'Se requiere contraseña',
+  passwordPrompt: 'Este archivo está cifrado. Introduce su contraseña para extraerlo; se descifra en tu navegador.',
+  password: 'Contraseña',
+  invalidPassword: 'Contraseña incorrecta, inténtalo de nuevo',
+  unsupportedEncryption: 'Este archivo usa un método de cifrado que no se puede descifrar aquí',
+  unlock: 'Desbloquear',
+  
   // Footer
   madeWith: 'Hecho con',
   by: 'por',
@@ -248,7 +272,7 @@ const de: Translations = {
   // File handling
   dropFiles: 'PowerPoint-Dateien hier ablegen',
   selectFiles: 'Dateien Auswählen',
-  supportedFormats: 'Unterstützt PPT & PPTX',
+  supportedFormats: 'Unterstützt PPT & PPTX, auch Bildschirmpräsentationen, Vorlagen und Dateien mit Makros',
   processing: 'Verarbeitung...',
   processed: 'Verarbeitet',
   noFiles: 'Keine Dateien hochgeladen',
@@ -294,6 +318,14 @@ const de: Translations = {
   noDataExtracted: 'Es konnten keine Daten extrahiert werden',
   exportSuccess: 'Export erfolgreich',
   
+  // Password-protected files
+  passwordRequired: 'Passwort erforderlich',
+  passwordPrompt: 'Diese Datei ist verschlüsselt. Geben Sie das Passwort ein, um sie zu extrahieren; sie wird in Ihrem Browser entschlüsselt.',
+  password: 'Passwort',
+  invalidPassword: 'Falsches Passwort, bitte versuchen Sie es erneut',
+  unsupportedEncryption: 'Diese Datei verwendet ein Verschlüsselungsverfahren, das hier nicht entschlüsselt werden kann',
+  unlock: 'Entsperren',
+  
   // Footer
   madeWith: 'Gemacht mit',
   by: 'von',
@@ -322,7 +354,7 @@ const fr: Translations = {
   // File handling
   dropFiles: 'Déposez les fichiers PowerPoint ici',
   selectFiles: 'Sélectionner des Fichiers',
-  supportedFormats: 'Supporte PPT et PPTX',
+  supportedFormats: 'Supporte PPT et PPTX, y compris diaporamas, modèles et fichiers avec macros',
   processing: 'Traitement...',
   processed: 'Traité',
   noFiles: 'Aucun fichier téléchargé',
@@ -368,6 +400,14 @@ const fr: Translations = {
   noDataExtracted: "Aucune donnée n'a pu être extraite",
   exportSuccess: 'Exportation réussie',
   
+  // Password-protected files
+  passwordRequired: 'Mot de passe requis',
+  passwordPrompt: 'Ce fichier est chiffré. Saisissez son mot de passe pour l’extraire ; il est déchiffré dans votre navigateur.',
+  password: 'Mot de passe',
+  invalidPassword: 'Mot de passe incorrect, veuillez réessayer',
+  unsupportedEncryption: 'Ce fichier utilise une méthode de chiffrement qui ne peut pas être déchiffrée ici',
+  unlock: 'Déverrouiller',
+  
   // Footer
   madeWith: 'Fait avec',
   by: 'par',
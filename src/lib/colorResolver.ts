@@ -0,0 +1,268 @@
+/**
+ * Color resolver - Turn DrawingML color elements into hex values
+ *
+ * Scheme colors (a:schemeClr) name a slot like "tx1" or "accent2". The slot is
+ * mapped through the color map (p:clrMap on the master, overridden by
+ * p:clrMapOvr on layouts and slides) onto the theme's color scheme. Color
+ * transforms (lumMod, lumOff, tint, shade, ...) are applied in document order.
+ */
+
+import type { ThemeColors, ThemeColorSlot } from '../types';
+import { elementName } from './xml';
+
+/**
+ * Everything needed to resolve a color inside one part
+ */
+export interface ColorContext {
+  /** Color scheme of the theme in effect */
+  scheme: ThemeColors;
+  /** Color map: bg1, tx1, bg2, tx2, accent1-6, hlink, folHlink to scheme slots */
+  colorMap: Record<string, string>;
+  /** Color substituted for phClr in theme styles (the color of a style reference) */
+  placeholder?: string;
+}
+
+export const THEME_COLOR_SLOTS: ThemeColorSlot[] = [
+  'dk1', 'lt1', 'dk2', 'lt2',
+  'accent1', 'accent2', 'accent3', 'accent4', 'accent5', 'accent6',
+  'hlink', 'folHlink',
+];
+
+// Used when a part has no p:clrMap
+export const DEFAULT_COLOR_MAP: Record<string, string> = {
+  bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2',
+  accent1: 'accent1', accent2: 'accent2', accent3: 'accent3',
+  accent4: 'accent4', accent5: 'accent5', accent6: 'accent6',
+  hlink: 'hlink', folHlink: 'folHlink',
+};
+
+// a:sysClr values without a lastClr
+const SYSTEM_COLORS: Record<string, string> = {
+  windowText: '000000',
+  window: 'FFFFFF',
+  btnFace: 'F0F0F0',
+  btnText: '000000',
+  highlight: '0078D7',
+  highlightText: 'FFFFFF',
+  grayText: '6D6D6D',
+};
+
+// The a:prstClr values seen in practice; the full list mirrors the CSS named colors
+const PRESET_COLORS: Record<string, string> = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF',
+  yellow: 'FFFF00', cyan: '00FFFF', magenta: 'FF00FF', gray: '808080', grey: '808080',
+  orange: 'FFA500', purple: '800080', navy: '000080', maroon: '800000', olive: '808000',
+  teal: '008080', silver: 'C0C0C0', lime: '00FF00', ltGray: 'D3D3D3', dkGray: 'A9A9A9',
+};
+
+const COLOR_ELEMENTS = new Set(['a:srgbClr', 'a:schemeClr', 'a:sysClr', 'a:prstClr', 'a:scrgbClr', 'a:hslClr']);
+
+/**
+ * Resolve a color element, or the first color element inside a fill or
+ * style reference (a:solidFill, a:fillRef, p:bgRef, ...). Returns "#RRGGBB".
+ */
+export function resolveColor(element: Element | null | undefined, context?: ColorContext): string | undefined {
+  const colorElement = element && (COLOR_ELEMENTS.has(elementName(element)) ? element : findColorElement(element));
+  if (!colorElement) return undefined;
+
+  const base = readBaseColor(colorElement, context);
+  if (!base) return undefined;
+
+  let rgb = hexToRgb(base);
+  for (let child = colorElement.firstElementChild; child; child = child.nextElementSibling) {
+    rgb = applyTransform(rgb, child);
+  }
+  return rgbToHex(rgb);
+}
+
+/**
+ * Read a theme color scheme (a:clrScheme) into named slots
+ */
+export function readColorScheme(clrScheme: Element | null | undefined): ThemeColors {
+  const colors: ThemeColors = {};
+  if (!clrScheme) return colors;
+
+  for (let child = clrScheme.firstElementChild; child; child = child.nextElementSibling) {
+    const slot = child.localName as ThemeColorSlot;
+    if (!THEME_COLOR_SLOTS.includes(slot)) continue;
+    // Slot colors are plain colors; no scheme is needed to resolve them
+    const color = resolveColor(child);
+    if (color) colors[slot] = color;
+  }
+  return colors;
+}
+
+/**
+ * Read a color map (p:clrMap or a:overrideClrMapping); missing entries come from the base map
+ */
+export function readColorMap(
+  element: Element | null | undefined,
+  base: Record<string, string> = DEFAULT_COLOR_MAP
+): Record<string, string> {
+  const colorMap = { ...base };
+  if (!element) return colorMap;
+
+  for (const key of Object.keys(DEFAULT_COLOR_MAP)) {
+    const value = element.getAttribute(key);
+    if (value) colorMap[key] = value;
+  }
+  return colorMap;
+}
+
+/**
+ * The color before transforms, as "RRGGBB"
+ */
+function readBaseColor(element: Element, context?: ColorContext): string | undefined {
+  const val = element.getAttribute('val') || '';
+
+  switch (elementName(element)) {
+    case 'a:srgbClr':
+      return /^[0-9a-f]{6}$/i.test(val) ? val : undefined;
+
+    case 'a:schemeClr': {
+      if (val === 'phClr') return context?.placeholder?.replace('#', '');
+      const slot = (context?.colorMap[val] || DEFAULT_COLOR_MAP[val] || val) as ThemeColorSlot;
+      return context?.scheme[slot]?.replace('#', '');
+    }
+
+    case 'a:sysClr':
+      return element.getAttribute('lastClr') || SYSTEM_COLORS[val];
+
+    case 'a:prstClr':
+      return PRESET_COLORS[val];
+
+    case 'a:scrgbClr': {
+      // Linear RGB in thousandths of a percent
+      const channel = (name: string) => linearToSrgb(readPercentage(element.getAttribute(name)) / 100000);
+      return rgbToHex({ r: channel('r'), g: channel('g'), b: channel('b') }).substring(1);
+    }
+
+    case 'a:hslClr': {
+      // Hue in 60000ths of a degree, saturation and luminance in thousandths of a percent
+      const h = parseInt(element.getAttribute('hue') || '0', 10) / 60000 / 360;
+      const s = readPercentage(element.getAttribute('sat')) / 100000;
+      const l = readPercentage(element.getAttribute('lum')) / 100000;
+      return rgbToHex(hslToRgb({ h, s, l })).substring(1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Apply one color transform element (a:lumMod, a:tint, ...)
+ */
+function applyTransform(rgb: Rgb, transform: Element): Rgb {
+  const raw = readPercentage(transform.getAttribute('val'));
+  const value = raw / 100000;
+  const name = elementName(transform);
+
+  switch (name) {
+    case 'a:tint':
+      // Move towards white
+      return mapChannels(rgb, c => 255 - (255 - c) * value);
+    case 'a:shade':
+      // Move towards black
+      return mapChannels(rgb, c => c * value);
+    case 'a:inv':
+      return mapChannels(rgb, c => 255 - c);
+    case 'a:gray': {
+      const gray = 0.299 * rgb.r + 0.587 * rgb.g + 0.114 * rgb.b;
+      return { r: gray, g: gray, b: gray };
+    }
+  }
+
+  const hsl = rgbToHsl(rgb);
+  switch (name) {
+    case 'a:lumMod': hsl.l *= value; break;
+    case 'a:lumOff': hsl.l += value; break;
+    case 'a:satMod': hsl.s *= value; break;
+    case 'a:satOff': hsl.s += value; break;
+    case 'a:hueMod': hsl.h *= value; break;
+    // Hue offsets are in 60000ths of a degree
+    case 'a:hueOff': hsl.h += raw / 60000 / 360; break;
+    case 'a:comp': hsl.h += 0.5; break;
+    default: return rgb;
+  }
+  hsl.h = ((hsl.h % 1) + 1) % 1;
+  hsl.s = clamp(hsl.s, 0, 1);
+  hsl.l = clamp(hsl.l, 0, 1);
+  return hslToRgb(hsl);
+}
+
+interface Rgb { r: number; g: number; b: number }
+interface Hsl { h: number; s: number; l: number }
+
+/**
+ * Helper: First color element among an element's children
+ */
+function findColorElement(element: Element): Element | null {
+  for (let child = element.firstElementChild; child; child = child.nextElementSibling) {
+    if (COLOR_ELEMENTS.has(elementName(child))) return child;
+  }
+  return null;
+}
+
+/**
+ * Helper: Read a percentage in thousandths of a percent; Strict documents write "75%"
+ */
+function readPercentage(value: string | null): number {
+  if (value?.endsWith('%')) return Math.round(parseFloat(value) * 1000);
+  return parseInt(value || '0', 10);
+}
+
+// Conversions work on channels of 0-255 and HSL components of 0-1
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex, 16);
+  return { r: (value >> 16) & 0xFF, g: (value >> 8) & 0xFF, b: value & 0xFF };
+}
+
+function rgbToHex({ r, g, b }: Rgb): string {
+  const toHex = (c: number) => Math.round(clamp(c, 0, 255)).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+}
+
+function rgbToHsl({ r, g, b }: Rgb): Hsl {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+  return { h: h / 6, s, l };
+}
+
+function hslToRgb({ h, s, l }: Hsl): Rgb {
+  if (s === 0) return { r: l * 255, g: l * 255, b: l * 255 };
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hueToChannel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return { r: hueToChannel(h + 1 / 3) * 255, g: hueToChannel(h) * 255, b: hueToChannel(h - 1 / 3) * 255 };
+}
+
+function linearToSrgb(value: number): number {
+  const v = clamp(value, 0, 1);
+  return (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255;
+}
+
+function mapChannels(rgb: Rgb, fn: (c: number) => number): Rgb {
+  return { r: fn(rgb.r), g: fn(rgb.g), b: fn(rgb.b) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,29 @@
+/**
+ * Compound files - Read streams of OLE compound files (MS-CFB)
+ *
+ * Binary .ppt files, encrypted Open XML files, OLE objects and VBA projects
+ * are all compound files: a small file system of storages and streams.
+ */
+
+import * as CFB from 'cfb';
+
+const COMPOUND_FILE_SIGNATURE = [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1];
+
+/**
+ * Whether the data starts like an OLE compound file; an Open XML file that
+ * does is encrypted
+ */
+export function isCompoundFile(data: Uint8Array): boolean {
+  return COMPOUND_FILE_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Content of a stream, by path from the root storage, e.g. "VBA/dir"; null when missing or empty
+ */
+export function getStreamData(cfb: CFB.CFBContainer, path: string): Uint8Array | null {
+  // Relative names match a stream of that name in any storage; the absolute path only matches from the root
+  const entry = CFB.find(cfb, `/${path}`);
+  if (!entry?.content?.length) return null;
+  const content = entry.content;
+  return content instanceof Uint8Array ? content : new Uint8Array(content);
+}
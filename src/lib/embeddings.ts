@@ -0,0 +1,178 @@
+/**
+ * Embedded objects - Unwrap OLE objects and parse embedded presentations
+ *
+ * Office documents embedded in a presentation are stored either as plain
+ * package parts (PPTX: ppt/embeddings/*.xlsx) or inside an OLE compound file
+ * (PPTX: oleObject*.bin, PPT: ExOleObjStg). The compound file holds the
+ * document itself (97-2003 formats), an OOXML package in its "Package"
+ * stream, or an arbitrary file in an \x01Ole10Native stream.
+ */
+
+import * as CFB from 'cfb';
+import { getStreamData, isCompoundFile } from './compoundFile';
+import type { EmbeddedObjectInfo, EmbeddedObjectKind, ExtractedPresentation } from '../types';
+import { parsePPTX } from './pptxParser';
+import { parsePPT, arrayToBase64 } from './pptParser';
+
+interface EmbeddedSource {
+  /** File name, e.g. "oleObject1.bin" */
+  name: string;
+  progId?: string;
+  path?: string;
+  slides: number[];
+}
+
+interface UnwrappedObject {
+  name: string;
+  extension: string;
+  data: Uint8Array;
+}
+
+// Streams identifying a 97-2003 document stored as the compound file itself
+const NATIVE_STREAMS: [string, string][] = [
+  ['PowerPoint Document', 'ppt'],
+  ['WordDocument', 'doc'],
+  ['Workbook', 'xls'],
+  ['Book', 'xls'],
+];
+
+/**
+ * Describe an embedded file; embedded presentations are parsed as well
+ */
+export async function createEmbeddedObject(
+  data: Uint8Array,
+  source: EmbeddedSource
+): Promise<EmbeddedObjectInfo> {
+  const unwrapped = unwrapOleObject(data, source);
+  const kind = getEmbeddedKind(unwrapped.extension);
+
+  const embedded: EmbeddedObjectInfo = {
+    name: unwrapped.name,
+    kind,
+    extension: unwrapped.extension,
+    size: unwrapped.data.length,
+    data: arrayToBase64(unwrapped.data),
+    slides: source.slides,
+  };
+  if (source.progId) embedded.progId = source.progId;
+  if (source.path) embedded.path = source.path;
+
+  if (kind === 'presentation') {
+    embedded.presentation = await parseEmbeddedPresentation(unwrapped);
+  }
+
+  return embedded;
+}
+
+/**
+ * Take the document out of an OLE compound file; other files are returned as they are
+ */
+function unwrapOleObject(data: Uint8Array, source: EmbeddedSource): UnwrappedObject {
+  const baseName = source.name.replace(/\.[^.]*$/, '');
+  const extension = source.name.includes('.') ? source.name.split('.').pop()!.toLowerCase() : 'bin';
+  const original = { name: source.name, extension, data };
+
+  if (!isCompoundFile(data)) return original;
+
+  let cfb: CFB.CFBContainer;
+  try {
+    cfb = CFB.read(data, { type: 'array' });
+  } catch {
+    return original;
+  }
+
+  // OOXML document in a "Package" stream
+  const packageData = getStreamData(cfb, 'Package');
+  if (packageData) {
+    const ext = getPackageExtension(source.progId);
+    return { name: `${baseName}.${ext}`, extension: ext, data: packageData };
+  }
+
+  // Any file wrapped by the Object Packager
+  const nativeData = getStreamData(cfb, '\x01Ole10Native');
+  if (nativeData) {
+    const native = readOle10Native(nativeData);
+    if (native) {
+      const ext = native.name.includes('.') ? native.name.split('.').pop()!.toLowerCase() : 'bin';
+      return { name: native.name, extension: ext, data: native.data };
+    }
+  }
+
+  // The compound file is the document
+  for (const [stream, ext] of NATIVE_STREAMS) {
+    if (getStreamData(cfb, stream)) {
+      return { name: `${baseName}.${ext}`, extension: ext, data };
+    }
+  }
+
+  return original;
+}
+
+/**
+ * Parse an embedded presentation; undefined when it can't be read
+ */
+async function parseEmbeddedPresentation(
+  unwrapped: UnwrappedObject
+): Promise<ExtractedPresentation | undefined> {
+  const file = new File([unwrapped.data.slice()], unwrapped.name);
+  try {
+    return unwrapped.extension === 'ppt' ? await parsePPT(file) : await parsePPTX(file);
+  } catch (error) {
+    console.warn(`Could not parse embedded presentation ${unwrapped.name}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Read the Ole10Native stream written by the Object Packager:
+ * size, flags, label, source path, command and the file data
+ */
+function readOle10Native(data: Uint8Array): { name: string; data: Uint8Array } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = 6; // total size (4) and flags (2)
+
+  const readCString = (): string => {
+    let str = '';
+    while (pos < data.length && data[pos] !== 0) {
+      str += String.fromCharCode(data[pos++]);
+    }
+    pos++;
+    return str;
+  };
+
+  const label = readCString();
+  const path = readCString();
+  pos += 4; // flags and unknown
+  if (pos + 4 > data.length) return null;
+  pos += 4 + view.getUint32(pos, true); // command
+  if (pos + 4 > data.length) return null;
+  const size = view.getUint32(pos, true);
+  pos += 4;
+  if (pos + size > data.length) return null;
+
+  const name = label || path.split(/[\\/]/).pop() || 'embedded.bin';
+  return { name, data: data.subarray(pos, pos + size) };
+}
+
+/**
+ * Helper: Extension of the OOXML package in an OLE object, from its ProgID
+ */
+function getPackageExtension(progId: string = ''): string {
+  const macro = /MacroEnabled/i.test(progId);
+  if (progId.startsWith('Excel.')) return macro ? 'xlsm' : 'xlsx';
+  if (progId.startsWith('Word.')) return macro ? 'docm' : 'docx';
+  if (progId.startsWith('PowerPoint.')) return macro ? 'pptm' : 'pptx';
+  return 'zip';
+}
+
+/**
+ * Helper: Classify an embedded file by its extension
+ */
+function getEmbeddedKind(extension: string): EmbeddedObjectKind {
+  if (['xls', 'xlsx', 'xlsm', 'xlsb'].includes(extension)) return 'workbook';
+  if (['doc', 'docx', 'docm'].includes(extension)) return 'document';
+  if (['ppt', 'pptx', 'pptm'].includes(extension)) return 'presentation';
+  if (extension === 'bin') return 'ole';
+  return 'package';
+}
+
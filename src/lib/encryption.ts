@@ -0,0 +1,402 @@
+/**
+ * Encryption - Detect password-protected files and decrypt them locally (MS-OFFCRYPTO)
+ *
+ * An encrypted Open XML file is a compound file: the EncryptionInfo stream says
+ * how the key is derived from the password and EncryptedPackage holds the
+ * encrypted zip. Agile (XML descriptor, AES-CBC) and Standard (AES-ECB)
+ * encryption are supported. Binary .ppt files encrypt each persist object with
+ * RC4 CryptoAPI; the PPT parser walks the objects with the cipher made here.
+ */
+
+import * as CFB from 'cfb';
+import { getStreamData } from './compoundFile';
+
+/**
+ * The file is encrypted and no password was given
+ */
+export class PasswordRequiredError extends Error {
+  constructor(message = 'This file is password protected') {
+    super(message);
+    this.name = 'PasswordRequiredError';
+  }
+}
+
+/**
+ * The password does not open the file
+ */
+export class InvalidPasswordError extends Error {
+  constructor(message = 'The password is incorrect') {
+    super(message);
+    this.name = 'InvalidPasswordError';
+  }
+}
+
+/**
+ * The file is encrypted in a way that can't be decrypted here
+ */
+export class UnsupportedEncryptionError extends Error {
+  constructor(message = 'Unsupported encryption') {
+    super(message);
+    this.name = 'UnsupportedEncryptionError';
+  }
+}
+
+/**
+ * Decrypts the rest of an RC4 stream on each call
+ */
+export type StreamCipher = (data: Uint8Array) => Uint8Array;
+
+// EncryptionHeader flags
+const FLAG_CRYPTO_API = 0x04;
+const FLAG_AES = 0x20;
+
+// Encrypted packages are decrypted in segments of this size (Agile)
+const SEGMENT_LENGTH = 4096;
+
+// Standard encryption hashes the password this many times
+const STANDARD_SPIN_COUNT = 50000;
+
+// Block keys of the Agile password key encryptor
+const BLOCK_KEY_VERIFIER_INPUT = [0xFE, 0xA7, 0xD2, 0x76, 0x3B, 0x4B, 0x9E, 0x79];
+const BLOCK_KEY_VERIFIER_VALUE = [0xD7, 0xAA, 0x0F, 0x6D, 0x30, 0x61, 0x34, 0x4E];
+const BLOCK_KEY_SECRET_KEY = [0x14, 0x6E, 0x0B, 0xE7, 0xAB, 0xAC, 0xD0, 0xD6];
+
+// Agile hashAlgorithm names to WebCrypto digests
+const HASH_ALGORITHMS: Record<string, string> = {
+  SHA1: 'SHA-1',
+  'SHA-1': 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA384: 'SHA-384',
+  SHA512: 'SHA-512',
+};
+
+interface EncryptionVerifier {
+  keySize: number;
+  salt: Uint8Array;
+  encryptedVerifier: Uint8Array;
+  encryptedVerifierHash: Uint8Array;
+}
+
+/**
+ * Decrypt an encrypted Open XML package into the bytes of its zip
+ */
+export async function decryptPackage(data: Uint8Array, password?: string): Promise<Uint8Array> {
+  const cfb = CFB.read(data, { type: 'array' });
+  const info = getStreamData(cfb, 'EncryptionInfo');
+  const encryptedPackage = getStreamData(cfb, 'EncryptedPackage');
+  if (!info || !encryptedPackage) {
+    throw new Error('Not an Open XML package: the file is an OLE compound document without an encrypted package');
+  }
+  if (password === undefined) throw new PasswordRequiredError();
+
+  const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+  const major = view.getUint16(0, true);
+  const minor = view.getUint16(2, true);
+  const flags = view.getUint32(4, true);
+
+  if (major === 4 && minor === 4) {
+    return decryptAgile(info, encryptedPackage, password);
+  }
+  if ((major === 3 || major === 4) && minor === 2 && (flags & FLAG_AES)) {
+    return decryptStandard(info, encryptedPackage, password);
+  }
+  throw new UnsupportedEncryptionError(`Unsupported encryption (version ${major}.${minor})`);
+}
+
+/**
+ * Check the password against RC4 CryptoAPI encryption info (a .ppt
+ * CryptSession10Container) and return a cipher for each block number
+ */
+export async function createRc4CryptoApiCipher(
+  info: Uint8Array,
+  password: string
+): Promise<(block: number) => Promise<StreamCipher>> {
+  const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+  const minor = view.getUint16(2, true);
+  const flags = view.getUint32(4, true);
+  if (minor !== 2 || !(flags & FLAG_CRYPTO_API) || (flags & FLAG_AES)) {
+    throw new UnsupportedEncryptionError('Unsupported encryption: only RC4 CryptoAPI is supported for .ppt files');
+  }
+
+  const verifier = readEncryptionVerifier(info, 20);
+  // A key size of 0 means 40 bits
+  const keyLength = (verifier.keySize || 40) / 8;
+  const passwordHash = await digest('SHA-1', verifier.salt, encodePassword(password));
+
+  const createCipher = async (block: number): Promise<StreamCipher> => {
+    const blockHash = await digest('SHA-1', passwordHash, uint32(block));
+    // 40-bit keys are padded to 128 bits with zeros
+    const key = new Uint8Array(Math.max(keyLength, 16));
+    key.set(blockHash.subarray(0, keyLength));
+    return createRc4(keyLength === 5 ? key : key.subarray(0, keyLength));
+  };
+
+  const cipher = await createCipher(0);
+  const verifierInput = cipher(verifier.encryptedVerifier);
+  const verifierHash = cipher(verifier.encryptedVerifierHash);
+  if (!equalBytes(await digest('SHA-1', verifierInput), verifierHash.subarray(0, 20))) {
+    throw new InvalidPasswordError();
+  }
+  return createCipher;
+}
+
+/**
+ * Agile encryption: the package key is itself encrypted with a key derived
+ * from the password, as described by an XML encryption descriptor
+ */
+async function decryptAgile(info: Uint8Array, encryptedPackage: Uint8Array, password: string): Promise<Uint8Array> {
+  // Version, then 4 reserved bytes before the XML
+  const xml = new TextDecoder('utf-8').decode(info.subarray(8));
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const keyData = doc.getElementsByTagNameNS('*', 'keyData')[0];
+  const encryptedKey = doc.getElementsByTagNameNS('*', 'encryptedKey')[0];
+  if (!keyData || !encryptedKey) throw new UnsupportedEncryptionError('Unsupported encryption: no password key encryptor');
+
+  for (const element of [keyData, encryptedKey]) {
+    if (element.getAttribute('cipherAlgorithm') !== 'AES' || element.getAttribute('cipherChaining') !== 'ChainingModeCBC') {
+      throw new UnsupportedEncryptionError(`Unsupported encryption: ${element.getAttribute('cipherAlgorithm')} ${element.getAttribute('cipherChaining')}`);
+    }
+  }
+
+  // Hash the password spinCount times, then once more with each block key
+  const hash = getHashAlgorithm(encryptedKey);
+  const salt = decodeBase64(encryptedKey.getAttribute('saltValue'));
+  const spinCount = parseInt(encryptedKey.getAttribute('spinCount') || '0', 10);
+  const keyBytes = parseInt(encryptedKey.getAttribute('keyBits') || '0', 10) / 8;
+  let passwordHash = await digest(hash, salt, encodePassword(password));
+  for (let i = 0; i < spinCount; i++) {
+    passwordHash = await digest(hash, uint32(i), passwordHash);
+  }
+  const deriveKey = async (blockKey: number[]) =>
+    fitLength(await digest(hash, passwordHash, Uint8Array.from(blockKey)), keyBytes);
+
+  const verifierInput = await aesCbcDecrypt(
+    await deriveKey(BLOCK_KEY_VERIFIER_INPUT),
+    salt,
+    decodeBase64(encryptedKey.getAttribute('encryptedVerifierHashInput'))
+  );
+  const verifierHash = await aesCbcDecrypt(
+    await deriveKey(BLOCK_KEY_VERIFIER_VALUE),
+    salt,
+    decodeBase64(encryptedKey.getAttribute('encryptedVerifierHashValue'))
+  );
+  const expectedHash = await digest(hash, verifierInput.subarray(0, salt.length));
+  if (!equalBytes(expectedHash, verifierHash.subarray(0, expectedHash.length))) {
+    throw new InvalidPasswordError();
+  }
+
+  const secretKey = (await aesCbcDecrypt(
+    await deriveKey(BLOCK_KEY_SECRET_KEY),
+    salt,
+    decodeBase64(encryptedKey.getAttribute('encryptedKeyValue'))
+  )).subarray(0, parseInt(keyData.getAttribute('keyBits') || '0', 10) / 8);
+
+  // Each segment has its own IV, derived from the key data salt and the segment number
+  const keyDataHash = getHashAlgorithm(keyData);
+  const keyDataSalt = decodeBase64(keyData.getAttribute('saltValue'));
+  const blockSize = parseInt(keyData.getAttribute('blockSize') || '16', 10);
+  const size = readPackageSize(encryptedPackage);
+  const output = new Uint8Array(size);
+
+  for (let segment = 0, offset = 8; offset < encryptedPackage.length && segment * SEGMENT_LENGTH < size; segment++) {
+    const end = Math.min(offset + SEGMENT_LENGTH, encryptedPackage.length);
+    const iv = fitLength(await digest(keyDataHash, keyDataSalt, uint32(segment)), blockSize);
+    const plain = await aesCbcDecrypt(secretKey, iv, encryptedPackage.subarray(offset, end));
+    output.set(plain.subarray(0, size - segment * SEGMENT_LENGTH), segment * SEGMENT_LENGTH);
+    offset = end;
+  }
+
+  return output;
+}
+
+/**
+ * Standard encryption: AES-ECB with a key derived from the password by
+ * SHA-1 (the CryptoAPI key derivation)
+ */
+async function decryptStandard(info: Uint8Array, encryptedPackage: Uint8Array, password: string): Promise<Uint8Array> {
+  const verifier = readEncryptionVerifier(info, 32);
+
+  let passwordHash = await digest('SHA-1', verifier.salt, encodePassword(password));
+  for (let i = 0; i < STANDARD_SPIN_COUNT; i++) {
+    passwordHash = await digest('SHA-1', uint32(i), passwordHash);
+  }
+  const finalHash = await digest('SHA-1', passwordHash, uint32(0));
+
+  // Key derivation of CryptDeriveKey: hash the final hash XORed into 0x36 and 0x5C buffers
+  const xorBuffer = (fill: number) => {
+    const buffer = new Uint8Array(64).fill(fill);
+    finalHash.forEach((byte, i) => { buffer[i] ^= byte; });
+    return buffer;
+  };
+  const derived = concatBytes(await digest('SHA-1', xorBuffer(0x36)), await digest('SHA-1', xorBuffer(0x5C)));
+  const key = derived.subarray(0, verifier.keySize / 8);
+
+  const verifierInput = await aesEcbDecrypt(key, verifier.encryptedVerifier);
+  const verifierHash = await aesEcbDecrypt(key, verifier.encryptedVerifierHash);
+  if (!equalBytes(await digest('SHA-1', verifierInput), verifierHash.subarray(0, 20))) {
+    throw new InvalidPasswordError();
+  }
+
+  const size = readPackageSize(encryptedPackage);
+  const encrypted = encryptedPackage.subarray(8);
+  const plain = await aesEcbDecrypt(key, encrypted.subarray(0, encrypted.length - (encrypted.length % 16)));
+  return plain.subarray(0, size);
+}
+
+/**
+ * Read the EncryptionHeader key size and the EncryptionVerifier that follows
+ * it, as used by Standard and RC4 CryptoAPI encryption
+ */
+function readEncryptionVerifier(info: Uint8Array, verifierHashLength: number): EncryptionVerifier {
+  const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+  const headerSize = view.getUint32(8, true);
+  // EncryptionHeader: flags, sizeExtra, algID, algIDHash, keySize, ...
+  const keySize = view.getUint32(12 + 16, true);
+
+  let pos = 12 + headerSize;
+  const saltSize = view.getUint32(pos, true);
+  pos += 4;
+  const salt = info.subarray(pos, pos + saltSize);
+  pos += saltSize;
+  const encryptedVerifier = info.subarray(pos, pos + 16);
+  pos += 16 + 4;
+  const encryptedVerifierHash = info.subarray(pos, pos + verifierHashLength);
+
+  return { keySize, salt, encryptedVerifier, encryptedVerifierHash };
+}
+
+/**
+ * Helper: AES-CBC without padding. WebCrypto always removes PKCS#7 padding,
+ * so a block that decrypts to a full padding block is appended first.
+ */
+async function aesCbcDecrypt(keyBytes: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', toBuffer(keyBytes), 'AES-CBC', false, ['encrypt', 'decrypt']);
+  const lastBlock = data.length >= 16 ? data.subarray(data.length - 16) : iv;
+  const padding = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-CBC', iv: toBuffer(lastBlock) },
+    key,
+    toBuffer(new Uint8Array(16).fill(16))
+  )).subarray(0, 16);
+
+  return new Uint8Array(await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: toBuffer(iv) },
+    key,
+    toBuffer(concatBytes(data, padding))
+  ));
+}
+
+/**
+ * Helper: AES-ECB, which WebCrypto lacks: CBC with a zero IV, then undo the
+ * chaining by XORing each block with the ciphertext block before it
+ */
+async function aesEcbDecrypt(keyBytes: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const plain = await aesCbcDecrypt(keyBytes, new Uint8Array(16), data);
+  for (let i = 16; i < plain.length; i++) {
+    plain[i] ^= data[i - 16];
+  }
+  return plain;
+}
+
+/**
+ * Helper: RC4 stream cipher; each call continues the key stream
+ */
+function createRc4(key: Uint8Array): StreamCipher {
+  const state = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) state[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xFF;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  let i = 0;
+  let j = 0;
+  return (data: Uint8Array) => {
+    const output = new Uint8Array(data.length);
+    for (let k = 0; k < data.length; k++) {
+      i = (i + 1) & 0xFF;
+      j = (j + state[i]) & 0xFF;
+      [state[i], state[j]] = [state[j], state[i]];
+      output[k] = data[k] ^ state[(state[i] + state[j]) & 0xFF];
+    }
+    return output;
+  };
+}
+
+/**
+ * Helper: WebCrypto digest of the concatenated parts
+ */
+async function digest(algorithm: string, ...parts: Uint8Array[]): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, toBuffer(concatBytes(...parts))));
+}
+
+/**
+ * Helper: WebCrypto digest name of an Agile keyData or encryptedKey element
+ */
+function getHashAlgorithm(element: Element): string {
+  const name = element.getAttribute('hashAlgorithm') || '';
+  const algorithm = HASH_ALGORITHMS[name];
+  if (!algorithm) throw new UnsupportedEncryptionError(`Unsupported encryption hash algorithm: ${name}`);
+  return algorithm;
+}
+
+/**
+ * Helper: Truncate a hash, or pad it with 0x36 bytes, to a key or IV length
+ */
+function fitLength(data: Uint8Array, length: number): Uint8Array {
+  if (data.length >= length) return data.subarray(0, length);
+  const output = new Uint8Array(length).fill(0x36);
+  output.set(data);
+  return output;
+}
+
+/**
+ * Helper: Decrypted size at the start of EncryptedPackage (64-bit, little-endian)
+ */
+function readPackageSize(encryptedPackage: Uint8Array): number {
+  const view = new DataView(encryptedPackage.buffer, encryptedPackage.byteOffset, encryptedPackage.byteLength);
+  return view.getUint32(0, true) + view.getUint32(4, true) * 0x100000000;
+}
+
+/**
+ * Helper: Passwords are hashed as UTF-16LE
+ */
+function encodePassword(password: string): Uint8Array {
+  const bytes = new Uint8Array(password.length * 2);
+  for (let i = 0; i < password.length; i++) {
+    const code = password.charCodeAt(i);
+    bytes[i * 2] = code & 0xFF;
+    bytes[i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+// Byte helpers
+
+function uint32(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xFF, (value >>> 8) & 0xFF, (value >>> 16) & 0xFF, value >>> 24);
+}
+
+function decodeBase64(value: string | null): Uint8Array {
+  return Uint8Array.from(atob(value || ''), char => char.charCodeAt(0));
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Helper: Copy into a standalone ArrayBuffer, as WebCrypto expects
+ */
+function toBuffer(data: Uint8Array): ArrayBuffer {
+  return data.slice().buffer as ArrayBuffer;
+}
@@ -5,19 +5,24 @@
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 import { jsPDF } from 'jspdf';
-import type { ExtractedPresentation } from '../types';
+import { stripExtension } from './fileTypes';
+import type { ExtractedPresentation, ExportOptions, LinkInfo, ChartInfo, SlideContent, TransitionInfo, AnimationStep, ThemeInfo, BackgroundInfo, TableInfo, TableCell, MediaUsage, ShapeInfo, TextParagraph } from '../types';
 
 /**
  * Export to JSON format
  */
-export function exportToJSON(presentations: ExtractedPresentation[]): string {
-  return JSON.stringify(presentations, null, 2);
+export function exportToJSON(presentations: ExtractedPresentation[], options: ExportOptions = {}): string {
+  return JSON.stringify(applyExportOptions(presentations, options), null, 2);
 }
 
 /**
  * Export to XML format
  */
-export function exportToXML(presentations: ExtractedPresentation[]): string {
+export function exportToXML(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions = {}
+): string {
+  presentations = applyExportOptions(presentations, options);
   let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
   xml += '<presentations>\n';
   
@@ -35,10 +40,31 @@ export function exportToXML(presentations: ExtractedPresentation[]): string {
     }
     xml += '    </metadata>\n';
     
+    // Presentation properties, sizes in EMU
+    if (pres.properties) {
+      const props = pres.properties;
+      xml += `    <properties firstSlideNumber="${props.firstSlideNumber}" rightToLeft="${props.rightToLeft}">\n`;
+      xml += `      <slideSize width="${props.slideSize.width}" height="${props.slideSize.height}"`;
+      xml += `${props.slideSize.type ? ` type="${escapeXml(props.slideSize.type)}"` : ''}/>\n`;
+      if (props.notesSize) {
+        xml += `      <notesSize width="${props.notesSize.width}" height="${props.notesSize.height}"/>\n`;
+      }
+      if (props.show) {
+        const show = props.show;
+        let attrs = `mode="${show.mode}" loop="${show.loop}" useTimings="${show.useTimings}" showNarration="${show.showNarration}"`;
+        if (show.restartTime !== undefined) attrs += ` restartTime="${show.restartTime}"`;
+        if (show.penColor) attrs += ` penColor="${show.penColor}"`;
+        if (show.slideRange) attrs += ` start="${show.slideRange.start}" end="${show.slideRange.end}"`;
+        if (show.customShow) attrs += ` customShow="${escapeXml(show.customShow)}"`;
+        xml += `      <show ${attrs}/>\n`;
+      }
+      xml += '    </properties>\n';
+    }
+    
     // Slides
     xml += '    <slides>\n';
     for (const slide of pres.slides) {
-      xml += `      <slide number="${slide.slideNumber}">\n`;
+      xml += `      <slide number="${slide.slideNumber}"${slide.hidden ? ' hidden="true"' : ''}${slide.section ? ` section="${escapeXml(slide.section)}"` : ''}>\n`;
       xml += `        <title>${escapeXml(slide.title)}</title>\n`;
       xml += '        <textContent>\n';
       for (const text of slide.textContent) {
@@ -48,25 +74,117 @@ export function exportToXML(presentations: ExtractedPresentation[]): string {
       if (slide.notes) {
         xml += `        <notes>${escapeXml(slide.notes)}</notes>\n`;
       }
+      if (slide.background) {
+        const bg = slide.background;
+        xml += `        <background type="${bg.type}" source="${bg.source}"${bg.color ? ` color="${bg.color}"` : ''}`;
+        xml += `${bg.image ? ` image="${escapeXml(bg.image)}"` : ''}/>\n`;
+      }
       
       // Shapes
       if (slide.shapes.length > 0) {
         xml += '        <shapes>\n';
         for (const shape of slide.shapes) {
-          xml += `          <shape type="${escapeXml(shape.type)}">${escapeXml(shape.text)}</shape>\n`;
+          let attrs = `type="${escapeXml(shape.type)}"`;
+          if (shape.name) attrs += ` name="${escapeXml(shape.name)}"`;
+          if (shape.fill) attrs += ` fill="${shape.fill}"`;
+          if (shape.altText) attrs += ` altText="${escapeXml(shape.altText)}"`;
+          if (shape.title) attrs += ` title="${escapeXml(shape.title)}"`;
+          if (shape.decorative) attrs += ' decorative="true"';
+          xml += `          <shape ${attrs}>${escapeXml(shape.text)}</shape>\n`;
         }
         xml += '        </shapes>\n';
       }
       
+      // Links
+      if (slide.links && slide.links.length > 0) {
+        xml += '        <links>\n';
+        for (const link of slide.links) {
+          let attrs = `action="${link.action}"`;
+          if (link.target) attrs += ` target="${escapeXml(link.target)}"`;
+          if (link.targetSlide !== undefined) attrs += ` slide="${link.targetSlide}"`;
+          if (link.hover) attrs += ' hover="true"';
+          xml += `          <link ${attrs}>${escapeXml(link.text)}</link>\n`;
+        }
+        xml += '        </links>\n';
+      }
+      
+      // Charts
+      if (slide.charts && slide.charts.length > 0) {
+        xml += '        <charts>\n';
+        for (const chart of slide.charts) {
+          xml += `          <chart kind="${escapeXml(chart.kind)}" title="${escapeXml(chart.title)}">\n`;
+          xml += '            <categories>\n';
+          for (const category of chart.categories) {
+            xml += `              <category>${escapeXml(category)}</category>\n`;
+          }
+          xml += '            </categories>\n';
+          for (const series of chart.series) {
+            xml += `            <series name="${escapeXml(series.name)}" kind="${escapeXml(series.kind)}">\n`;
+            for (const value of series.values) {
+              xml += value === null ? '              <value/>\n' : `              <value>${value}</value>\n`;
+            }
+            xml += '            </series>\n';
+          }
+          xml += '          </chart>\n';
+        }
+        xml += '        </charts>\n';
+      }
+      
+      // Transition and animations
+      if (slide.transition) {
+        const t = slide.transition;
+        xml += `        <transition type="${escapeXml(t.type)}" advanceOnClick="${t.advanceOnClick}"`;
+        xml += `${t.speed ? ` speed="${t.speed}"` : ''}${t.duration !== undefined ? ` duration="${t.duration}"` : ''}`;
+        xml += `${t.advanceAfter !== undefined ? ` advanceAfter="${t.advanceAfter}"` : ''}/>\n`;
+      }
+      if (slide.animations && slide.animations.length > 0) {
+        xml += `        <animations clicks="${countBuildClicks(slide)}">\n`;
+        for (const step of slide.animations) {
+          xml += `          <step click="${step.click}" trigger="${step.trigger}" class="${step.effectClass}" effect="${escapeXml(step.effect)}" delay="${step.delay}"`;
+          xml += `${step.duration !== undefined ? ` duration="${step.duration}"` : ''}${step.shapeId !== undefined ? ` shapeId="${step.shapeId}"` : ''}`;
+          xml += `${step.shapeName ? ` shapeName="${escapeXml(step.shapeName)}"` : ''}/>\n`;
+        }
+        xml += '        </animations>\n';
+      }
+      
+      // Video and audio
+      if (slide.media && slide.media.length > 0) {
+        xml += '        <media>\n';
+        for (const usage of slide.media) {
+          let attrs = `kind="${usage.kind}" name="${escapeXml(usage.name)}"`;
+          if (usage.external) attrs += ' external="true"';
+          if (usage.target) attrs += ` target="${escapeXml(usage.target)}"`;
+          if (usage.shapeId !== undefined) attrs += ` shapeId="${usage.shapeId}"`;
+          if (usage.posterFrame) attrs += ` posterFrame="${escapeXml(usage.posterFrame)}"`;
+          if (usage.trimStart !== undefined) attrs += ` trimStart="${usage.trimStart}"`;
+          if (usage.trimEnd !== undefined) attrs += ` trimEnd="${usage.trimEnd}"`;
+          if (usage.startAt !== undefined) attrs += ` startAt="${usage.startAt}"`;
+          if (usage.startDelay !== undefined) attrs += ` startDelay="${usage.startDelay}"`;
+          xml += `          <usage ${attrs}/>\n`;
+        }
+        xml += '        </media>\n';
+      }
+      
       // Tables
       if (slide.tables.length > 0) {
         xml += '        <tables>\n';
         for (const table of slide.tables) {
-          xml += `          <table rows="${table.rows}" columns="${table.columns}">\n`;
-          for (const row of table.cells) {
+          xml += `          <table rows="${table.rows}" columns="${table.columns}"`;
+          xml += `${table.headerRow ? ' headerRow="true"' : ''}${table.firstColumn ? ' firstColumn="true"' : ''}>\n`;
+          if (table.columnWidths) {
+            xml += `            <columns>${table.columnWidths.map(width => `<column width="${width}"/>`).join('')}</columns>\n`;
+          }
+          for (const row of getTableGrid(table)) {
             xml += '            <row>\n';
             for (const cell of row) {
-              xml += `              <cell>${escapeXml(cell)}</cell>\n`;
+              if (cell.merged) {
+                xml += '              <cell merged="true"/>\n';
+                continue;
+              }
+              let attrs = cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : '';
+              if (cell.rowSpan > 1) attrs += ` rowspan="${cell.rowSpan}"`;
+              if (cell.fill) attrs += ` fill="${cell.fill}"`;
+              xml += `              <cell${attrs}>${escapeXml(cell.text)}</cell>\n`;
             }
             xml += '            </row>\n';
           }
@@ -79,26 +197,66 @@ export function exportToXML(presentations: ExtractedPresentation[]): string {
     }
     xml += '    </slides>\n';
     
+    // Embedded objects
+    if (pres.embeddings && pres.embeddings.length > 0) {
+      xml += '    <embeddings>\n';
+      for (const embedded of pres.embeddings) {
+        xml += `      <embedding name="${escapeXml(embedded.name)}" kind="${embedded.kind}"`;
+        xml += `${embedded.progId ? ` progId="${escapeXml(embedded.progId)}"` : ''} slides="${embedded.slides.join(' ')}" size="${embedded.size}"`;
+        if (!embedded.presentation) {
+          xml += '/>\n';
+          continue;
+        }
+        xml += '>\n';
+        for (const slide of embedded.presentation.slides) {
+          xml += `        <slide number="${slide.slideNumber}">\n`;
+          xml += `          <title>${escapeXml(slide.title)}</title>\n`;
+          for (const text of slide.textContent) {
+            xml += `          <text>${escapeXml(text)}</text>\n`;
+          }
+          xml += '        </slide>\n';
+        }
+        xml += '      </embedding>\n';
+      }
+      xml += '    </embeddings>\n';
+    }
+    
     // Themes
     if (pres.themes.length > 0) {
       xml += '    <themes>\n';
       for (const theme of pres.themes) {
         xml += `      <theme name="${escapeXml(theme.name)}">\n`;
-        xml += '        <colors>\n';
-        for (const color of theme.colors) {
-          xml += `          <color>${escapeXml(color)}</color>\n`;
+        xml += `        <colors${theme.colorScheme ? ` scheme="${escapeXml(theme.colorScheme)}"` : ''}>\n`;
+        for (const [slot, color] of Object.entries(theme.colors)) {
+          xml += `          <color slot="${slot}">${color}</color>\n`;
         }
         xml += '        </colors>\n';
-        xml += '        <fonts>\n';
-        for (const font of theme.fonts) {
-          xml += `          <font>${escapeXml(font)}</font>\n`;
-        }
+        xml += `        <fonts${theme.fontScheme ? ` scheme="${escapeXml(theme.fontScheme)}"` : ''}>\n`;
+        if (theme.fonts.major) xml += `          <font role="major">${escapeXml(theme.fonts.major)}</font>\n`;
+        if (theme.fonts.minor) xml += `          <font role="minor">${escapeXml(theme.fonts.minor)}</font>\n`;
         xml += '        </fonts>\n';
         xml += '      </theme>\n';
       }
       xml += '    </themes>\n';
     }
     
+    // Fonts
+    if (pres.fonts && (pres.fonts.used.length > 0 || pres.fonts.embedded.length > 0)) {
+      xml += '    <fonts>\n';
+      for (const font of pres.fonts.embedded) {
+        xml += `      <embeddedFont typeface="${escapeXml(font.typeface)}" styles="${font.styles.join(' ')}"/>\n`;
+      }
+      for (const font of pres.fonts.used) {
+        xml += `      <usedFont typeface="${escapeXml(font.typeface)}" scripts="${font.scripts.join(' ')}" runs="${font.runs}"`;
+        xml += ` embedded="${font.embedded}"${font.themeFont !== undefined ? ` themeFont="${font.themeFont}"` : ''}>\n`;
+        for (const [slide, runs] of Object.entries(font.slides)) {
+          xml += `        <slide number="${slide}" runs="${runs}"/>\n`;
+        }
+        xml += '      </usedFont>\n';
+      }
+      xml += '    </fonts>\n';
+    }
+    
     // Custom Properties
     if (Object.keys(pres.customProperties).length > 0) {
       xml += '    <customProperties>\n';
@@ -118,7 +276,11 @@ export function exportToXML(presentations: ExtractedPresentation[]): string {
 /**
  * Export to CSV format (slide content focused)
  */
-export function exportToCSV(presentations: ExtractedPresentation[]): string {
+export function exportToCSV(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions = {}
+): string {
+  presentations = applyExportOptions(presentations, options);
   const headers = [
     'File Name',
     'Slide Number',
@@ -127,6 +289,12 @@ export function exportToCSV(presentations: ExtractedPresentation[]): string {
     'Notes',
     'Shape Count',
     'Table Count',
+    'Links',
+    'Charts',
+    'Transition',
+    'Build Clicks',
+    'Auto Advance (ms)',
+    'Linked Media',
     'Creator',
     'Created Date',
     'Modified Date',
@@ -144,6 +312,12 @@ export function exportToCSV(presentations: ExtractedPresentation[]): string {
         slide.notes,
         slide.shapes.length.toString(),
         slide.tables.length.toString(),
+        (slide.links || []).map(link => `${link.text} -> ${describeLinkTarget(link)}`).join(' | '),
+        (slide.charts || []).map(formatChartSummary).join(' | '),
+        slide.transition ? formatTransition(slide.transition) : '',
+        countBuildClicks(slide).toString(),
+        slide.transition?.advanceAfter?.toString() ?? '',
+        (slide.media || []).filter(usage => usage.external).map(usage => usage.target || usage.name).join(' | '),
         pres.metadata.creator,
         pres.metadata.created,
         pres.metadata.modified,
@@ -158,7 +332,11 @@ export function exportToCSV(presentations: ExtractedPresentation[]): string {
 /**
  * Export to plain text format
  */
-export function exportToText(presentations: ExtractedPresentation[]): string {
+export function exportToText(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions = {}
+): string {
+  presentations = applyExportOptions(presentations, options);
   let text = '';
   
   for (const pres of presentations) {
@@ -175,12 +353,14 @@ export function exportToText(presentations: ExtractedPresentation[]): string {
     text += `Application: ${pres.metadata.application || 'N/A'}\n`;
     text += `Total Slides: ${pres.metadata.totalSlides}\n`;
     text += `Total Words: ${pres.metadata.totalWords}\n`;
+    text += `Build Clicks: ${pres.slides.reduce((sum, slide) => sum + countBuildClicks(slide), 0)}\n`;
+    text += `Auto-Advance Time: ${formatSeconds(pres.slides.reduce((sum, slide) => sum + (slide.transition?.advanceAfter ?? 0), 0))}\n`;
     text += '\n';
     
     // Slides
     for (const slide of pres.slides) {
       text += '─'.repeat(60) + '\n';
-      text += `SLIDE ${slide.slideNumber}: ${slide.title}\n`;
+      text += `SLIDE ${slide.slideNumber}: ${slide.title}${slide.hidden ? ' (hidden)' : ''}\n`;
       text += '─'.repeat(60) + '\n';
       
       if (slide.textContent.length > 0) {
@@ -194,6 +374,35 @@ export function exportToText(presentations: ExtractedPresentation[]): string {
         text += `\nNotes:\n  ${slide.notes}\n`;
       }
       
+      if (slide.background) {
+        text += `\nBackground: ${formatBackground(slide.background)}\n`;
+      }
+      
+      if (slide.links && slide.links.length > 0) {
+        text += '\nLinks:\n';
+        for (const link of slide.links) {
+          text += `  ${link.text || '(no text)'} -> ${describeLinkTarget(link)}\n`;
+        }
+      }
+      
+      if (slide.media && slide.media.length > 0) {
+        text += '\nVideo and Audio:\n';
+        for (const usage of slide.media) {
+          text += `  ${formatMediaUsage(usage)}\n`;
+        }
+      }
+      
+      if (slide.transition) {
+        text += `\nTransition: ${formatTransition(slide.transition)}\n`;
+      }
+      
+      if (slide.animations && slide.animations.length > 0) {
+        text += `\nAnimations (${countBuildClicks(slide)} clicks):\n`;
+        for (const step of slide.animations) {
+          text += `  ${formatAnimationStep(step)}\n`;
+        }
+      }
+      
       if (slide.tables.length > 0) {
         text += '\nTables:\n';
         for (const table of slide.tables) {
@@ -207,12 +416,42 @@ export function exportToText(presentations: ExtractedPresentation[]): string {
       text += '\n';
     }
     
+    // Embedded objects, with the text of embedded presentations
+    if (pres.embeddings && pres.embeddings.length > 0) {
+      text += '\n--- EMBEDDED OBJECTS ---\n';
+      for (const embedded of pres.embeddings) {
+        text += `${embedded.name} (${embedded.progId || embedded.kind})`;
+        text += embedded.slides.length > 0 ? ` on slides ${embedded.slides.join(', ')}\n` : '\n';
+        for (const slide of embedded.presentation?.slides || []) {
+          text += `  Slide ${slide.slideNumber}: ${slide.title}\n`;
+          for (const content of slide.textContent) {
+            text += `    • ${content}\n`;
+          }
+        }
+      }
+    }
+    
     // Themes
     if (pres.themes.length > 0) {
       text += '\n--- THEMES ---\n';
       for (const theme of pres.themes) {
         text += `Theme: ${theme.name}\n`;
-        text += `  Fonts: ${theme.fonts.join(', ')}\n`;
+        text += `  Fonts: ${formatThemeFonts(theme)}\n`;
+        const colors = Object.entries(theme.colors).map(([slot, color]) => `${slot} ${color}`);
+        if (colors.length > 0) text += `  Colors: ${colors.join(', ')}\n`;
+      }
+    }
+    
+    // Fonts
+    if (pres.fonts && (pres.fonts.used.length > 0 || pres.fonts.embedded.length > 0)) {
+      text += '\n--- FONTS ---\n';
+      for (const font of pres.fonts.used) {
+        const flags = [font.embedded ? 'embedded' : '', font.themeFont === false ? 'not a theme font' : ''].filter(Boolean);
+        text += `${font.typeface}: ${font.runs} runs${flags.length > 0 ? ` (${flags.join(', ')})` : ''}\n`;
+        text += `  ${Object.entries(font.slides).map(([slide, runs]) => `Slide ${slide}: ${runs}`).join(', ')}\n`;
+      }
+      for (const font of pres.fonts.embedded) {
+        text += `Embedded: ${font.typeface} (${font.styles.join(', ')})\n`;
       }
     }
     
@@ -222,10 +461,76 @@ export function exportToText(presentations: ExtractedPresentation[]): string {
   return text;
 }
 
+/**
+ * Export to Markdown; equations are written as LaTeX, inline as $…$ and display equations as $$ blocks
+ */
+export function exportToMarkdown(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions = {}
+): string {
+  presentations = applyExportOptions(presentations, options);
+  let md = '';
+  
+  for (const pres of presentations) {
+    md += `# ${escapeMarkdown(pres.metadata.title || pres.fileName)}\n\n`;
+    md += `- **File:** ${escapeMarkdown(pres.fileName)}\n`;
+    md += `- **Creator:** ${escapeMarkdown(pres.metadata.creator || 'N/A')}\n`;
+    md += `- **Created:** ${pres.metadata.created || 'N/A'}\n`;
+    md += `- **Modified:** ${pres.metadata.modified || 'N/A'}\n`;
+    md += `- **Total Slides:** ${pres.metadata.totalSlides}\n`;
+    md += `- **Total Words:** ${pres.metadata.totalWords}\n\n`;
+    
+    for (const slide of pres.slides) {
+      md += `## Slide ${slide.slideNumber}: ${escapeMarkdown(slide.title || 'Untitled Slide')}${slide.hidden ? ' (hidden)' : ''}\n\n`;
+      
+      // Paragraphs become list items; those holding a display equation become blocks of their own
+      slide.textContent.forEach((content, i) => {
+        const paragraph = slide.paragraphs?.[i];
+        const text = renderTextMarkdown(content, paragraph);
+        if (text.includes('\n')) {
+          md += `\n${text}\n\n`;
+        } else if (text) {
+          md += `${'  '.repeat(paragraph?.level ?? 0)}- ${text}\n`;
+        }
+      });
+      if (!md.endsWith('\n\n')) md += '\n';
+      
+      for (const table of slide.tables) {
+        const [header = [], ...rows] = table.cells;
+        md += `| ${header.map(escapeMarkdown).join(' | ')} |\n`;
+        md += `|${header.map(() => ' --- |').join('')}\n`;
+        for (const row of rows) {
+          md += `| ${row.map(escapeMarkdown).join(' | ')} |\n`;
+        }
+        md += '\n';
+      }
+      
+      if (slide.links && slide.links.length > 0) {
+        md += '**Links:**\n\n';
+        for (const link of slide.links) {
+          md += `- ${renderLinkMarkdown(link)}\n`;
+        }
+        md += '\n';
+      }
+      
+      if (slide.notes) {
+        md += '**Notes:**\n\n';
+        md += slide.notes.split('\n').map(line => `> ${escapeMarkdown(line)}`).join('\n') + '\n\n';
+      }
+    }
+  }
+  
+  return md;
+}
+
 /**
  * Export to HTML format
  */
-export function exportToHTML(presentations: ExtractedPresentation[]): string {
+export function exportToHTML(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions = {}
+): string {
+  presentations = applyExportOptions(presentations, options);
   let html = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -254,13 +559,18 @@ export function exportToHTML(presentations: ExtractedPresentation[]): string {
     .content-item { margin: 0.5rem 0; padding: 0.5rem; background: white; border-radius: 4px; }
     .notes { margin-top: 1rem; padding: 1rem; background: #fff9e6; border-radius: 4px; border-left: 4px solid #f59e0b; }
     .notes-label { font-weight: 600; font-size: 0.875rem; color: #b45309; margin-bottom: 0.5rem; }
+    .links { margin-top: 1rem; font-size: 0.875rem; }
+    .links a { color: #2563eb; }
+    .link-target { color: #888; }
     table { width: 100%; border-collapse: collapse; margin: 1rem 0; }
     th, td { border: 1px solid #e5e5e5; padding: 0.5rem; text-align: left; }
     th { background: #f5f5f5; font-weight: 600; }
+    caption { text-align: left; font-weight: 600; padding: 0.5rem 0; }
     .themes { margin-top: 2rem; }
     .theme { background: #f0f0f0; padding: 1rem; border-radius: 8px; margin-bottom: 1rem; }
     .theme-name { font-weight: 600; margin-bottom: 0.5rem; }
     .theme-detail { font-size: 0.875rem; color: #666; }
+    .theme-color { display: inline-block; width: 1rem; height: 1rem; margin-right: 0.25rem; border: 1px solid #ccc; border-radius: 2px; }
   </style>
 </head>
 <body>
@@ -311,7 +621,7 @@ export function exportToHTML(presentations: ExtractedPresentation[]): string {
 
     for (const slide of pres.slides) {
       html += `
-        <div class="slide">
+        <div class="slide" id="${slideAnchor(pres.id, slide.slideNumber)}">
           <div class="slide-header">
             <div class="slide-number">${slide.slideNumber}</div>
             <div class="slide-title">${escapeHtml(slide.title) || 'Untitled Slide'}</div>
@@ -319,9 +629,9 @@ export function exportToHTML(presentations: ExtractedPresentation[]): string {
           <div class="slide-content">
 `;
       
-      for (const content of slide.textContent) {
-        html += `            <div class="content-item">${escapeHtml(content)}</div>\n`;
-      }
+      slide.textContent.forEach((content, i) => {
+        html += `            <div class="content-item">${renderTextHtml(content, slide.paragraphs?.[i])}</div>\n`;
+      });
       
       if (slide.notes) {
         html += `
@@ -332,16 +642,57 @@ export function exportToHTML(presentations: ExtractedPresentation[]): string {
 `;
       }
       
+      if (slide.links && slide.links.length > 0) {
+        html += `
+            <div class="links">
+              <div class="notes-label">🔗 Links</div>
+`;
+        for (const link of slide.links) {
+          html += `              <div>${renderLinkHtml(link, pres.id)} <span class="link-target">${escapeHtml(describeLinkTarget(link))}</span></div>\n`;
+        }
+        html += `            </div>
+`;
+      }
+      
+      for (const chart of slide.charts || []) {
+        html += `
+            <table class="chart">
+              <caption>📈 ${escapeHtml(chart.title || 'Chart')} (${escapeHtml(chart.kind)})</caption>
+              <tbody>
+                <tr>
+                  <th></th>
+${chart.categories.map(category => `                  <th>${escapeHtml(category)}</th>\n`).join('')}                </tr>
+`;
+        for (const series of chart.series) {
+          html += '                <tr>\n';
+          html += `                  <th>${escapeHtml(series.name)}</th>\n`;
+          for (const value of series.values) {
+            html += `                  <td>${value ?? ''}</td>\n`;
+          }
+          html += '                </tr>\n';
+        }
+        html += `
+              </tbody>
+            </table>
+`;
+      }
+      
       for (const table of slide.tables) {
         html += `
             <table>
               <tbody>
 `;
-        for (let i = 0; i < table.cells.length; i++) {
+        const grid = getTableGrid(table);
+        for (let i = 0; i < grid.length; i++) {
           html += '                <tr>\n';
-          for (const cell of table.cells[i]) {
-            const tag = i === 0 ? 'th' : 'td';
-            html += `                  <${tag}>${escapeHtml(cell)}</${tag}>\n`;
+          for (const cell of grid[i]) {
+            // Covered cells are part of the merged cell that spans them
+            if (cell.merged) continue;
+            const tag = i === 0 && (table.headerRow || !table.grid) ? 'th' : 'td';
+            let attrs = cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : '';
+            if (cell.rowSpan > 1) attrs += ` rowspan="${cell.rowSpan}"`;
+            if (cell.fill) attrs += ` style="background: ${cell.fill}"`;
+            html += `                  <${tag}${attrs}>${escapeHtml(cell.text)}</${tag}>\n`;
           }
           html += '                </tr>\n';
         }
@@ -369,7 +720,9 @@ export function exportToHTML(presentations: ExtractedPresentation[]): string {
         html += `
         <div class="theme">
           <div class="theme-name">${escapeHtml(theme.name)}</div>
-          <div class="theme-detail">Fonts: ${theme.fonts.map(f => escapeHtml(f)).join(', ')}</div>
+          <div class="theme-detail">Fonts: ${escapeHtml(formatThemeFonts(theme))}</div>
+          <div class="theme-detail">${Object.entries(theme.colors).map(([slot, color]) =>
+            `<span class="theme-color" style="background: ${color}" title="${slot}: ${color}"></span>`).join('')}</div>
         </div>
 `;
       }
@@ -392,7 +745,11 @@ export function exportToHTML(presentations: ExtractedPresentation[]): string {
 /**
  * Export to PDF format
  */
-export function exportToPDF(presentations: ExtractedPresentation[]): jsPDF {
+export function exportToPDF(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions = {}
+): jsPDF {
+  presentations = applyExportOptions(presentations, options);
   const doc = new jsPDF();
   let yPos = 20;
   const pageHeight = doc.internal.pageSize.height;
@@ -483,6 +840,17 @@ export function exportToPDF(presentations: ExtractedPresentation[]): jsPDF {
         doc.setFont('helvetica', 'normal');
       }
       
+      for (const link of slide.links || []) {
+        checkNewPage();
+        const label = `${link.text || '(no text)'} -> ${describeLinkTarget(link)}`;
+        if (link.action === 'url' && link.target && isSafeUrl(link.target)) {
+          doc.textWithLink(label, marginLeft + 5, yPos, { url: link.target });
+        } else {
+          doc.text(label, marginLeft + 5, yPos);
+        }
+        yPos += lineHeight - 2;
+      }
+      
       yPos += lineHeight;
     }
     
@@ -503,13 +871,17 @@ export function downloadFile(content: string | Blob, filename: string, type: str
 /**
  * Download all media as ZIP
  */
-export async function downloadMediaAsZip(presentations: ExtractedPresentation[]): Promise<void> {
+export async function downloadMediaAsZip(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions = {}
+): Promise<void> {
+  presentations = applyExportOptions(presentations, options);
   const zip = new JSZip();
   
   for (const pres of presentations) {
-    if (pres.media.length === 0) continue;
+    if (!hasMediaFiles(pres)) continue;
     
-    const folderName = pres.fileName.replace(/\.(pptx?|ppt)$/i, '');
+    const folderName = stripExtension(pres.fileName);
     const folder = zip.folder(folderName);
     
     if (folder) {
@@ -518,6 +890,7 @@ export async function downloadMediaAsZip(presentations: ExtractedPresentation[])
           folder.file(media.name, media.data, { base64: true });
         }
       }
+      addEmbeddedFiles(folder, pres);
     }
   }
   
@@ -530,50 +903,56 @@ export async function downloadMediaAsZip(presentations: ExtractedPresentation[])
  */
 export async function downloadAllAsZip(
   presentations: ExtractedPresentation[],
-  formats: string[]
+  formats: string[],
+  options: ExportOptions = {}
 ): Promise<void> {
   const zip = new JSZip();
   const timestamp = new Date().toISOString().split('T')[0];
   
   // Generate base filename from original file(s)
   const baseFilename = presentations.length === 1
-    ? presentations[0].fileName.replace(/\.(pptx?|ppt)$/i, '')
+    ? stripExtension(presentations[0].fileName)
     : 'presentations';
   
   if (formats.includes('json')) {
-    zip.file(`${baseFilename}-export-${timestamp}.json`, exportToJSON(presentations));
+    zip.file(`${baseFilename}-export-${timestamp}.json`, exportToJSON(presentations, options));
   }
   if (formats.includes('xml')) {
-    zip.file(`${baseFilename}-export-${timestamp}.xml`, exportToXML(presentations));
+    zip.file(`${baseFilename}-export-${timestamp}.xml`, exportToXML(presentations, options));
   }
   if (formats.includes('csv')) {
-    zip.file(`${baseFilename}-export-${timestamp}.csv`, exportToCSV(presentations));
+    zip.file(`${baseFilename}-export-${timestamp}.csv`, exportToCSV(presentations, options));
   }
   if (formats.includes('txt')) {
-    zip.file(`${baseFilename}-export-${timestamp}.txt`, exportToText(presentations));
+    zip.file(`${baseFilename}-export-${timestamp}.txt`, exportToText(presentations, options));
+  }
+  if (formats.includes('md')) {
+    zip.file(`${baseFilename}-export-${timestamp}.md`, exportToMarkdown(presentations, options));
   }
   if (formats.includes('html')) {
-    zip.file(`${baseFilename}-export-${timestamp}.html`, exportToHTML(presentations));
+    zip.file(`${baseFilename}-export-${timestamp}.html`, exportToHTML(presentations, options));
   }
   if (formats.includes('pdf')) {
-    const pdf = exportToPDF(presentations);
+    const pdf = exportToPDF(presentations, options);
     zip.file(`${baseFilename}-export-${timestamp}.pdf`, pdf.output('blob'));
   }
   
-  // Add media folder
-  const hasMedia = presentations.some(p => p.media.length > 0);
+  // Add media folder, without the files only left-out slides use
+  presentations = applyExportOptions(presentations, options);
+  const hasMedia = presentations.some(hasMediaFiles);
   if (hasMedia) {
     const mediaFolder = zip.folder('media');
     if (mediaFolder) {
       for (const pres of presentations) {
-        if (pres.media.length === 0) continue;
-        const presFolder = mediaFolder.folder(pres.fileName.replace(/\.(pptx?|ppt)$/i, ''));
+        if (!hasMediaFiles(pres)) continue;
+        const presFolder = mediaFolder.folder(stripExtension(pres.fileName));
         if (presFolder) {
           for (const media of pres.media) {
             if (media.data) {
               presFolder.file(media.name, media.data, { base64: true });
             }
           }
+          addEmbeddedFiles(presFolder, pres);
         }
       }
     }
@@ -605,6 +984,301 @@ function escapeHtml(str: string): string {
     .replace(/"/g, '&quot;');
 }
 
+function escapeMarkdown(str: string): string {
+  return str.replace(/([\\`*_[\]<>#|$])/g, '\\$1');
+}
+
+// Placeholder roles of footer, date and slide number text
+const FOOTER_PLACEHOLDERS = new Set(['dt', 'ftr', 'hdr', 'sldNum']);
+
+/**
+ * Helper: Drop hidden slides and footer text unless they are asked for; returns copies, never mutates
+ */
+function applyExportOptions(
+  presentations: ExtractedPresentation[],
+  options: ExportOptions
+): ExtractedPresentation[] {
+  if (options.includeFooters === false) {
+    presentations = presentations.map(pres => ({ ...pres, slides: pres.slides.map(withoutFooters) }));
+  }
+  if (options.includeHiddenSlides !== false) return presentations;
+  
+  return presentations.map(withoutHiddenSlides);
+}
+
+/**
+ * Helper: Copy of a presentation without its hidden slides. Every slide number index is
+ * filtered, and media, embedded objects and fonts only hidden slides use are dropped.
+ */
+function withoutHiddenSlides(pres: ExtractedPresentation): ExtractedPresentation {
+  const slides = pres.slides.filter(slide => !slide.hidden);
+  if (slides.length === pres.slides.length) return pres;
+  
+  const visible = new Set(slides.map(slide => slide.slideNumber));
+  const keepVisible = (numbers: number[]) => numbers.filter(n => visible.has(n));
+  // Files used by slides, but none of them visible, go with the hidden slides
+  const onlyHidden = (numbers: number[] | undefined) => !!numbers && numbers.length > 0 && !numbers.some(n => visible.has(n));
+  
+  const mediaUsage = pres.mediaUsage && Object.fromEntries(
+    Object.entries(pres.mediaUsage).map(([name, numbers]) => [name, keepVisible(numbers)])
+  );
+  
+  return {
+    ...pres,
+    metadata: { ...pres.metadata, totalSlides: pres.metadata.totalSlides - (pres.slides.length - slides.length) },
+    slides,
+    media: pres.media.filter(media => !onlyHidden(pres.mediaUsage?.[media.name])),
+    mediaUsage: mediaUsage && Object.fromEntries(Object.entries(mediaUsage).filter(([, numbers]) => numbers.length > 0)),
+    masters: pres.masters?.map(master => ({
+      ...master,
+      layouts: master.layouts.map(layout => ({ ...layout, slides: keepVisible(layout.slides) })),
+    })),
+    sections: pres.sections?.map(section => ({ ...section, slides: keepVisible(section.slides) })),
+    customShows: pres.customShows?.map(show => ({ ...show, slides: keepVisible(show.slides) })),
+    embeddings: pres.embeddings
+      ?.filter(embedded => !onlyHidden(embedded.slides))
+      .map(embedded => ({ ...embedded, slides: keepVisible(embedded.slides) })),
+    fonts: pres.fonts && {
+      ...pres.fonts,
+      used: pres.fonts.used.flatMap(font => {
+        const entries = Object.entries(font.slides).filter(([n]) => visible.has(Number(n)));
+        if (entries.length === 0) return [];
+        return [{ ...font, slides: Object.fromEntries(entries), runs: entries.reduce((sum, [, runs]) => sum + runs, 0) }];
+      }),
+    },
+  };
+}
+
+/**
+ * Helper: Copy of a slide without its footer, date and slide number placeholders
+ */
+function withoutFooters(slide: SlideContent): SlideContent {
+  const paragraphs = slide.paragraphs?.filter(paragraph => !FOOTER_PLACEHOLDERS.has(paragraph.placeholder || ''));
+  // The flat text list has one entry per paragraph; it is kept as is when nothing was dropped
+  const textContent = paragraphs && paragraphs.length !== slide.paragraphs?.length
+    ? paragraphs.map(paragraph => paragraph.text)
+    : slide.textContent;
+  return {
+    ...slide,
+    textContent,
+    paragraphs,
+    shapes: withoutFooterShapes(slide.shapes),
+    shapeTree: slide.shapeTree && withoutFooterShapes(slide.shapeTree),
+  };
+}
+
+/**
+ * Helper: Drop footer, date and slide number placeholders from a shape list or tree
+ */
+function withoutFooterShapes(shapes: ShapeInfo[]): ShapeInfo[] {
+  return shapes
+    .filter(shape => !FOOTER_PLACEHOLDERS.has(shape.placeholder || ''))
+    .map(shape => shape.children ? { ...shape, children: withoutFooterShapes(shape.children) } : shape);
+}
+
+/**
+ * Helper: HTML of a text entry; paragraphs with equations are rendered run by run, equations as MathML
+ */
+function renderTextHtml(content: string, paragraph?: TextParagraph): string {
+  if (!paragraph || paragraph.text !== content || !paragraph.runs.some(run => run.math)) {
+    return escapeHtml(content);
+  }
+  return paragraph.runs.map(run => run.math ? run.math.mathml : escapeHtml(run.text)).join('');
+}
+
+/**
+ * Helper: Markdown of a text entry; equations are written as LaTeX, display equations as $$ blocks
+ */
+function renderTextMarkdown(content: string, paragraph?: TextParagraph): string {
+  if (!paragraph || paragraph.text !== content || !paragraph.runs.some(run => run.math)) {
+    return escapeMarkdown(content);
+  }
+  return paragraph.runs
+    .map(run => {
+      if (!run.math) return escapeMarkdown(run.text);
+      return run.math.display ? `\n\n$$\n${run.math.latex}\n$$\n\n` : `$${run.math.latex}$`;
+    })
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Helper: Whether a presentation has files for the media ZIP
+ */
+function hasMediaFiles(pres: ExtractedPresentation): boolean {
+  return pres.media.length > 0 || (pres.embeddings?.length ?? 0) > 0;
+}
+
+/**
+ * Helper: Add embedded objects to a presentation's media folder
+ */
+function addEmbeddedFiles(folder: JSZip, pres: ExtractedPresentation): void {
+  if (!pres.embeddings || pres.embeddings.length === 0) return;
+  const embeddingsFolder = folder.folder('embeddings');
+  if (!embeddingsFolder) return;
+  
+  // Names come from the file (Ole10Native labels among them) and may repeat
+  const used = new Set<string>();
+  for (const embedded of pres.embeddings) {
+    if (embedded.data) {
+      embeddingsFolder.file(getUniqueFileName(embedded.name, used), embedded.data, { base64: true });
+    }
+  }
+}
+
+/**
+ * Helper: ZIP entry name for a file name, without path separators and numbered
+ * when already used, e.g. "report (2).pdf"
+ */
+function getUniqueFileName(name: string, used: Set<string>): string {
+  const safeName = name.replace(/[\\/]/g, '_').replace(/^\.+$/, '_') || 'embedded.bin';
+  const dot = safeName.lastIndexOf('.');
+  const base = dot > 0 ? safeName.slice(0, dot) : safeName;
+  const extension = dot > 0 ? safeName.slice(dot) : '';
+
+  let unique = safeName;
+  for (let n = 2; used.has(unique.toLowerCase()); n++) {
+    unique = `${base} (${n})${extension}`;
+  }
+  used.add(unique.toLowerCase());
+  return unique;
+}
+
+/**
+ * Helper: Describe where a link goes, e.g. "https://example.com" or "Slide 3"
+ */
+function describeLinkTarget(link: LinkInfo): string {
+  if (link.action === 'slide') return `Slide ${link.targetSlide}`;
+  return link.target || link.action;
+}
+
+/**
+ * Helper: Only web and mail URLs become clickable in exports
+ */
+function isSafeUrl(url: string): boolean {
+  return /^(https?|mailto|ftp):/i.test(url);
+}
+
+/**
+ * Helper: One-line chart summary, e.g. "Quarterly (column): Sales [Q1=10; Q2=20]"
+ */
+function formatChartSummary(chart: ChartInfo): string {
+  const series = chart.series.map(s => {
+    const points = s.values.map((value, i) => `${chart.categories[i] ?? i + 1}=${value ?? ''}`);
+    return `${s.name} [${points.join('; ')}]`;
+  });
+  return `${chart.title || 'Chart'} (${chart.kind}): ${series.join(', ')}`;
+}
+
+/**
+ * Helper: Cell model of a table; tables without one get unmerged cells from their text
+ */
+function getTableGrid(table: TableInfo): TableCell[][] {
+  return table.grid || table.cells.map(row => row.map(text => ({ text, colSpan: 1, rowSpan: 1 })));
+}
+
+/**
+ * Helper: One-line media summary, e.g. "video intro.mp4 (external link: file:///talks/intro.mp4), poster image3.png"
+ */
+function formatMediaUsage(usage: MediaUsage): string {
+  const parts = [`${usage.kind} ${usage.name}${usage.external ? ` (external link: ${usage.target || 'unknown'})` : ''}`];
+  if (usage.posterFrame) parts.push(`poster ${usage.posterFrame}`);
+  if (usage.trimStart !== undefined) parts.push(`trimmed ${formatSeconds(usage.trimStart)} from the start`);
+  if (usage.trimEnd !== undefined) parts.push(`trimmed ${formatSeconds(usage.trimEnd)} from the end`);
+  if (usage.startAt !== undefined) parts.push(`plays from ${formatSeconds(usage.startAt)}`);
+  if (usage.startDelay !== undefined) parts.push(`starts after ${formatSeconds(usage.startDelay)}`);
+  return parts.join(', ');
+}
+
+/**
+ * Helper: Clicks needed to play a slide's build sequence
+ */
+function countBuildClicks(slide: SlideContent): number {
+  return (slide.animations || []).filter(step => step.trigger === 'onClick').length;
+}
+
+/**
+ * Helper: One-line transition summary, e.g. "fade, fast, auto-advance after 5s"
+ */
+function formatTransition(transition: TransitionInfo): string {
+  const parts = [transition.direction ? `${transition.type} (${transition.direction})` : transition.type];
+  if (transition.speed) parts.push(transition.speed);
+  if (transition.duration !== undefined) parts.push(formatSeconds(transition.duration));
+  if (!transition.advanceOnClick) parts.push('no click advance');
+  if (transition.advanceAfter !== undefined) parts.push(`auto-advance after ${formatSeconds(transition.advanceAfter)}`);
+  return parts.join(', ');
+}
+
+/**
+ * Helper: One-line build step summary, e.g. "Click 1: fly (entrance) on Title 1, after 0.5s"
+ */
+function formatAnimationStep(step: AnimationStep): string {
+  const trigger = step.trigger === 'onShapeClick'
+    ? `On click of shape ${step.triggerShapeId ?? '?'}`
+    : step.trigger === 'onClick' ? `Click ${step.click}` : `${step.trigger === 'withPrevious' ? 'With' : 'After'} previous`;
+  const target = step.shapeName || (step.shapeId !== undefined ? `shape ${step.shapeId}` : 'slide');
+  const delay = step.delay > 0 ? `, after ${formatSeconds(step.delay)}` : '';
+  return `${trigger}: ${step.effect} (${step.effectClass}) on ${target}${delay}`;
+}
+
+/**
+ * Helper: Theme fonts, e.g. "Major: Calibri Light, Minor: Calibri"
+ */
+function formatThemeFonts(theme: ThemeInfo): string {
+  const fonts: string[] = [];
+  if (theme.fonts.major) fonts.push(`Major: ${theme.fonts.major}`);
+  if (theme.fonts.minor) fonts.push(`Minor: ${theme.fonts.minor}`);
+  return fonts.join(', ') || 'none';
+}
+
+/**
+ * Helper: One-line background summary, e.g. "gradient #FFFFFF -> #4472C4 (from master)"
+ */
+function formatBackground(background: BackgroundInfo): string {
+  const detail = background.image || (background.colors ? background.colors.join(' -> ') : background.color);
+  return `${background.type}${detail ? ` ${detail}` : ''} (from ${background.source})`;
+}
+
+/**
+ * Helper: Format milliseconds as seconds, e.g. "1.5s"
+ */
+function formatSeconds(ms: number): string {
+  return `${parseFloat((ms / 1000).toFixed(2))}s`;
+}
+
+/**
+ * Helper: Element id of a slide in the HTML export
+ */
+function slideAnchor(presentationId: string, slideNumber: number): string {
+  return `${escapeHtml(presentationId)}-slide-${slideNumber}`;
+}
+
+/**
+ * Helper: Render a link as an anchor; slide jumps point at the slide in the same export
+ */
+function renderLinkHtml(link: LinkInfo, presentationId: string): string {
+  const text = escapeHtml(link.text || '(no text)');
+  if (link.action === 'url' && link.target && isSafeUrl(link.target)) {
+    return `<a href="${escapeHtml(link.target)}" target="_blank" rel="noopener noreferrer">${text}</a>`;
+  }
+  if (link.action === 'slide' && link.targetSlide !== undefined) {
+    return `<a href="#${slideAnchor(presentationId, link.targetSlide)}">${text}</a>`;
+  }
+  return text;
+}
+
+/**
+ * Helper: Render a link in Markdown; only safe URLs become clickable
+ */
+function renderLinkMarkdown(link: LinkInfo): string {
+  const text = escapeMarkdown(link.text || '(no text)');
+  if (link.action === 'url' && link.target && isSafeUrl(link.target)) {
+    return `[${text}](<${link.target.replace(/[<>]/g, encodeURIComponent)}>)`;
+  }
+  return `${text} -> ${escapeMarkdown(describeLinkTarget(link))}`;
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -0,0 +1,40 @@
+/**
+ * File types - PowerPoint file variants and the parser each one needs
+ *
+ * Shows (.ppsx, .pps), templates (.potx, .pot), macro-enabled files and
+ * Office themes (.thmx) share the formats of .pptx and .ppt.
+ */
+
+import type { PresentationFileType } from '../types';
+
+// Variants stored as Open XML packages (ZIP)
+const OPEN_XML_TYPES: PresentationFileType[] = ['pptx', 'pptm', 'potx', 'potm', 'ppsx', 'ppsm', 'thmx'];
+
+// Variants stored as OLE compound files
+const BINARY_TYPES: PresentationFileType[] = ['ppt', 'pps', 'pot'];
+
+/** Accepted extensions, e.g. ".pptx" */
+export const SUPPORTED_EXTENSIONS = [...OPEN_XML_TYPES, ...BINARY_TYPES].map(type => `.${type}`);
+
+/**
+ * File type from the file name; null for files that aren't presentations
+ */
+export function getFileType(fileName: string): PresentationFileType | null {
+  const ext = fileName.toLowerCase().split('.').pop() as PresentationFileType;
+  return OPEN_XML_TYPES.includes(ext) || BINARY_TYPES.includes(ext) ? ext : null;
+}
+
+/**
+ * Whether a file is an Open XML package (parsePPTX) rather than a binary file (parsePPT)
+ */
+export function isOpenXmlFile(fileName: string): boolean {
+  const type = getFileType(fileName);
+  return type !== null && OPEN_XML_TYPES.includes(type);
+}
+
+/**
+ * File name without its presentation extension, e.g. "deck" for "deck.ppsx"; other names are kept
+ */
+export function stripExtension(fileName: string): string {
+  return getFileType(fileName) ? fileName.slice(0, fileName.lastIndexOf('.')) : fileName;
+}
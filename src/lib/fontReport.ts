@@ -0,0 +1,76 @@
+/**
+ * Font report - Embedded fonts and the typefaces text runs are set in
+ *
+ * Runs without a typeface of their own use the default font: the theme's
+ * heading font in title placeholders and its body font elsewhere (PPTX), or
+ * the default font of the font collection (PPT). Defaults set on masters and
+ * placeholders are not followed.
+ */
+
+import type { SlideContent, EmbeddedFontInfo, FontReport, FontUsage, FontScript } from '../types';
+
+/**
+ * Typefaces used for runs without one of their own
+ */
+export interface FontDefaults {
+  heading?: string;
+  body?: string;
+  /** Typefaces of the theme; the report flags them when given */
+  themeFonts?: string[];
+}
+
+// Shape types of title placeholders
+const TITLE_TYPES = new Set(['title', 'ctrTitle']);
+
+/**
+ * Count the runs set in each typeface, per slide
+ */
+export function createFontReport(
+  slides: SlideContent[],
+  embedded: EmbeddedFontInfo[],
+  defaults: FontDefaults = {}
+): FontReport {
+  const used = new Map<string, FontUsage>();
+  const embeddedNames = new Set(embedded.map(font => font.typeface.toLowerCase()));
+  const themeNames = defaults.themeFonts && new Set(defaults.themeFonts.map(typeface => typeface.toLowerCase()));
+
+  const count = (typeface: string, script: FontScript, slideNumber: number) => {
+    let usage = used.get(typeface);
+    if (!usage) {
+      usage = {
+        typeface,
+        scripts: [],
+        runs: 0,
+        slides: {},
+        embedded: embeddedNames.has(typeface.toLowerCase()),
+      };
+      if (themeNames) usage.themeFont = themeNames.has(typeface.toLowerCase());
+      used.set(typeface, usage);
+    }
+    if (!usage.scripts.includes(script)) usage.scripts.push(script);
+    usage.runs++;
+    usage.slides[slideNumber] = (usage.slides[slideNumber] || 0) + 1;
+  };
+
+  for (const slide of slides) {
+    const titleShapes = new Set(slide.shapes.filter(shape => TITLE_TYPES.has(shape.type)).map(shape => shape.id));
+
+    for (const paragraph of slide.paragraphs || []) {
+      const isTitle = paragraph.shapeId !== undefined && titleShapes.has(paragraph.shapeId);
+      const fallback = isTitle ? defaults.heading : defaults.body;
+
+      for (const run of paragraph.runs) {
+        if (!run.text.trim()) continue;
+        const latin = run.font || fallback;
+        if (latin) count(latin, 'latin', slide.slideNumber);
+        if (run.eastAsianFont) count(run.eastAsianFont, 'eastAsian', slide.slideNumber);
+        if (run.complexScriptFont) count(run.complexScriptFont, 'complexScript', slide.slideNumber);
+      }
+    }
+  }
+
+  return {
+    embedded,
+    used: [...used.values()].sort((a, b) => b.runs - a.runs || a.typeface.localeCompare(b.typeface)),
+  };
+}
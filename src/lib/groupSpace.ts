@@ -0,0 +1,51 @@
+/**
+ * Group space - Map the coordinates of grouped shapes onto the slide
+ *
+ * Shapes in a group are positioned in the group's own child space (a:chOff and
+ * a:chExt in PPTX, OfficeArtFSPGR in PPT), which the group's frame stretches
+ * over its position on the parent. Nested groups compose.
+ */
+
+/**
+ * Maps coordinates of a group's children into slide coordinates, in the units of
+ * the file (EMU in PPTX, master units in PPT): slide = child * scale + offset
+ */
+export interface CoordinateSpace {
+  offsetX: number;
+  offsetY: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+/**
+ * A rectangle as offset and extent
+ */
+export interface SpaceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const SLIDE_SPACE: CoordinateSpace = { offsetX: 0, offsetY: 0, scaleX: 1, scaleY: 1 };
+
+/**
+ * Coordinate space of a group's children, from the group's frame in its parent's
+ * space and the child space the frame shows
+ */
+export function composeGroupSpace(
+  parent: CoordinateSpace,
+  frame: SpaceRect,
+  childSpace: SpaceRect
+): CoordinateSpace {
+  // A collapsed child extent would divide by zero; keep the children unscaled
+  const scaleX = childSpace.width ? frame.width / childSpace.width : 1;
+  const scaleY = childSpace.height ? frame.height / childSpace.height : 1;
+
+  return {
+    offsetX: parent.offsetX + parent.scaleX * (frame.x - childSpace.x * scaleX),
+    offsetY: parent.offsetY + parent.scaleY * (frame.y - childSpace.y * scaleY),
+    scaleX: parent.scaleX * scaleX,
+    scaleY: parent.scaleY * scaleY,
+  };
+}
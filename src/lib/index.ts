@@ -1,3 +1,5 @@
 export { parsePPTX } from './pptxParser';
 export { parsePPT } from './pptParser';
+export { PasswordRequiredError, InvalidPasswordError, UnsupportedEncryptionError } from './encryption';
+export { SUPPORTED_EXTENSIONS, getFileType, isOpenXmlFile, stripExtension } from './fileTypes';
 export * from './exportUtils';
@@ -0,0 +1,485 @@
+/**
+ * Office Math - Convert OMML equations (m:oMath) to LaTeX and MathML
+ *
+ * Covers what the PowerPoint equation editor writes: fractions, scripts,
+ * radicals, delimiters, n-ary operators, functions, limits, accents, bars,
+ * group characters, boxes, equation arrays and matrices. Other elements
+ * are converted through their children.
+ */
+
+import { elementName, getAttribute, getChildElement, findParentWithTag } from './xml';
+
+const MATHML_NAMESPACE = 'http://www.w3.org/1998/Math/MathML';
+
+// LaTeX commands for symbols in math runs
+const LATEX_SYMBOLS: Record<string, string> = {
+  // Greek letters
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\epsilon', 'ϵ': '\\epsilon',
+  'ζ': '\\zeta', 'η': '\\eta', 'θ': '\\theta', 'ϑ': '\\vartheta', 'ι': '\\iota', 'κ': '\\kappa',
+  'λ': '\\lambda', 'μ': '\\mu', 'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ϖ': '\\varpi', 'ρ': '\\rho',
+  'ϱ': '\\varrho', 'σ': '\\sigma', 'ς': '\\varsigma', 'τ': '\\tau', 'υ': '\\upsilon', 'φ': '\\varphi',
+  'ϕ': '\\phi', 'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega',
+  'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda', 'Ξ': '\\Xi', 'Π': '\\Pi',
+  'Σ': '\\Sigma', 'Υ': '\\Upsilon', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+
+  // Operators and relations
+  '±': '\\pm', '∓': '\\mp', '×': '\\times', '÷': '\\div', '⋅': '\\cdot', '·': '\\cdot', '∗': '\\ast',
+  '∘': '\\circ', '⊕': '\\oplus', '⊗': '\\otimes', '≤': '\\leq', '≥': '\\geq', '≠': '\\neq',
+  '≈': '\\approx', '≡': '\\equiv', '∼': '\\sim', '≅': '\\cong', '∝': '\\propto', '≪': '\\ll', '≫': '\\gg',
+  '∈': '\\in', '∉': '\\notin', '∋': '\\ni', '⊂': '\\subset', '⊆': '\\subseteq', '⊃': '\\supset',
+  '⊇': '\\supseteq', '∪': '\\cup', '∩': '\\cap', '∧': '\\wedge', '∨': '\\vee', '¬': '\\neg',
+  '∀': '\\forall', '∃': '\\exists', '∅': '\\emptyset', '∞': '\\infty', '∂': '\\partial', '∇': '\\nabla',
+  '→': '\\to', '←': '\\leftarrow', '↔': '\\leftrightarrow', '⇒': '\\Rightarrow', '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow', '↦': '\\mapsto', '…': '\\ldots', '⋯': '\\cdots', '⋮': '\\vdots', '⋱': '\\ddots',
+  '°': '^{\\circ}', '′': '\'', '″': '\'\'', 'ℏ': '\\hbar', 'ℓ': '\\ell', '√': '\\surd',
+  'ℝ': '\\mathbb{R}', 'ℕ': '\\mathbb{N}', 'ℤ': '\\mathbb{Z}', 'ℚ': '\\mathbb{Q}', 'ℂ': '\\mathbb{C}',
+
+  // Characters with a meaning in LaTeX
+  '\\': '\\backslash', '{': '\\{', '}': '\\}', '#': '\\#', '%': '\\%', '$': '\\$', '_': '\\_',
+  '&': '\\&', '^': '\\hat{}', '~': '\\sim',
+
+  // Invisible function application, times, separator and plus
+  '\u2061': '', '\u2062': '', '\u2063': '', '\u2064': '',
+};
+
+// LaTeX commands of n-ary operators (m:nary m:chr)
+const NARY_OPERATORS: Record<string, string> = {
+  '∑': '\\sum', '∏': '\\prod', '∐': '\\coprod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint',
+  '∮': '\\oint', '⋃': '\\bigcup', '⋂': '\\bigcap', '⋁': '\\bigvee', '⋀': '\\bigwedge',
+};
+
+// LaTeX delimiters (m:d m:begChr, m:endChr and m:sepChr)
+const LATEX_DELIMITERS: Record<string, string> = {
+  '{': '\\{', '}': '\\}', '‖': '\\|', '⟨': '\\langle', '⟩': '\\rangle', '〈': '\\langle', '〉': '\\rangle',
+  '⌊': '\\lfloor', '⌋': '\\rfloor', '⌈': '\\lceil', '⌉': '\\rceil',
+};
+
+// Accents (m:acc m:chr, combining characters) as LaTeX commands and spacing characters for MathML
+const ACCENTS: Record<string, { latex: string; mo: string }> = {
+  '\u0302': { latex: '\\hat', mo: '^' },
+  '\u0303': { latex: '\\tilde', mo: '~' },
+  '\u0304': { latex: '\\bar', mo: '¯' },
+  '\u0305': { latex: '\\bar', mo: '¯' },
+  '\u0307': { latex: '\\dot', mo: '˙' },
+  '\u0308': { latex: '\\ddot', mo: '¨' },
+  '\u0301': { latex: '\\acute', mo: '´' },
+  '\u0300': { latex: '\\grave', mo: '`' },
+  '\u0306': { latex: '\\breve', mo: '˘' },
+  '\u030C': { latex: '\\check', mo: 'ˇ' },
+  '\u20D7': { latex: '\\vec', mo: '→' },
+};
+
+// Function names with a LaTeX command (m:func m:fName, m:limLow)
+const FUNCTION_NAMES = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'coth',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'arg', 'deg', 'dim', 'gcd', 'ker', 'Pr',
+]);
+
+// m:scr and m:sty values as LaTeX commands and MathML variants
+const SCRIPTS: Record<string, { latex: string; variant: string }> = {
+  'double-struck': { latex: '\\mathbb', variant: 'double-struck' },
+  script: { latex: '\\mathcal', variant: 'script' },
+  fraktur: { latex: '\\mathfrak', variant: 'fraktur' },
+  'sans-serif': { latex: '\\mathsf', variant: 'sans-serif' },
+  monospace: { latex: '\\mathtt', variant: 'monospace' },
+};
+const STYLES: Record<string, { latex: string; variant: string }> = {
+  p: { latex: '\\mathrm', variant: 'normal' },
+  b: { latex: '\\mathbf', variant: 'bold' },
+  bi: { latex: '\\boldsymbol', variant: 'bold-italic' },
+};
+
+/**
+ * LaTeX of an m:oMath element, without $ delimiters
+ */
+export function ommlToLatex(oMath: Element): string {
+  return latexOf(oMath).trim();
+}
+
+/**
+ * MathML <math> element of an m:oMath element
+ */
+export function ommlToMathML(oMath: Element, display = false): string {
+  return `<math xmlns="${MATHML_NAMESPACE}"${display ? ' display="block"' : ''}>${mathmlOf(oMath)}</math>`;
+}
+
+/**
+ * Helper: LaTeX of the children of an element, in order
+ */
+function latexOf(element: Element | null): string {
+  const parts: string[] = [];
+  for (let child = element?.firstElementChild; child; child = child.nextElementSibling) {
+    parts.push(latexNode(child));
+  }
+  return joinLatex(parts);
+}
+
+/**
+ * Convert one OMML element to LaTeX
+ */
+function latexNode(node: Element): string {
+  const name = elementName(node);
+  const arg = (childName: string) => latexOf(getChildElement(node, childName));
+
+  switch (name) {
+    case 'm:r':
+      return latexRun(node);
+
+    case 'm:f': {
+      const num = arg('m:num');
+      const den = arg('m:den');
+      switch (readProperty(node, 'm:fPr', 'm:type')) {
+        case 'lin':
+          return `${latexBase(num)}/${latexBase(den)}`;
+        case 'skw':
+          return `{}^{${num}}/_{${den}}`;
+        case 'noBar':
+          return `\\genfrac{}{}{0pt}{}{${num}}{${den}}`;
+        default:
+          return `\\frac{${num}}{${den}}`;
+      }
+    }
+
+    case 'm:sSup':
+      return `${latexBase(arg('m:e'))}^{${arg('m:sup')}}`;
+    case 'm:sSub':
+      return `${latexBase(arg('m:e'))}_{${arg('m:sub')}}`;
+    case 'm:sSubSup':
+      return `${latexBase(arg('m:e'))}_{${arg('m:sub')}}^{${arg('m:sup')}}`;
+    case 'm:sPre':
+      return joinLatex([`{}_{${arg('m:sub')}}^{${arg('m:sup')}}`, latexBase(arg('m:e'))]);
+
+    case 'm:rad': {
+      const degree = arg('m:deg');
+      const hidden = readFlag(node, 'm:radPr', 'm:degHide');
+      return degree && !hidden ? `\\sqrt[${degree}]{${arg('m:e')}}` : `\\sqrt{${arg('m:e')}}`;
+    }
+
+    case 'm:d': {
+      const { begin, separator, end } = readDelimiters(node);
+      const items = childElements(node, 'm:e').map(latexOf);
+      const open = begin ? LATEX_DELIMITERS[begin] || begin : '.';
+      const close = end ? LATEX_DELIMITERS[end] || end : '.';
+      const sep = LATEX_DELIMITERS[separator] || separator;
+      return joinLatex([`\\left${open}`, items.join(sep), `\\right${close}`]);
+    }
+
+    case 'm:nary': {
+      const chr = readProperty(node, 'm:naryPr', 'm:chr') || '∫';
+      const sub = readFlag(node, 'm:naryPr', 'm:subHide') ? '' : arg('m:sub');
+      const sup = readFlag(node, 'm:naryPr', 'm:supHide') ? '' : arg('m:sup');
+      const operator = (NARY_OPERATORS[chr] || latexText(chr)) + (sub ? `_{${sub}}` : '') + (sup ? `^{${sup}}` : '');
+      return joinLatex([operator, `{${arg('m:e')}}`]);
+    }
+
+    case 'm:func':
+      return joinLatex([latexOperator(getChildElement(node, 'm:fName')), `{${arg('m:e')}}`]);
+
+    case 'm:limLow':
+    case 'm:limUpp': {
+      const base = latexOperator(getChildElement(node, 'm:e'));
+      const limit = arg('m:lim');
+      if (FUNCTION_NAMES.has(base.substring(1))) {
+        return `${base}${name === 'm:limLow' ? '_' : '^'}{${limit}}`;
+      }
+      return `\\${name === 'm:limLow' ? 'underset' : 'overset'}{${limit}}{${base}}`;
+    }
+
+    case 'm:acc': {
+      const chr = readProperty(node, 'm:accPr', 'm:chr') ?? '\u0302';
+      const accent = ACCENTS[chr];
+      return accent ? `${accent.latex}{${arg('m:e')}}` : `\\overset{${latexText(chr)}}{${arg('m:e')}}`;
+    }
+
+    case 'm:bar':
+      return readProperty(node, 'm:barPr', 'm:pos') === 'top'
+        ? `\\overline{${arg('m:e')}}`
+        : `\\underline{${arg('m:e')}}`;
+
+    case 'm:groupChr': {
+      const chr = readProperty(node, 'm:groupChrPr', 'm:chr') ?? '⏟';
+      const top = readProperty(node, 'm:groupChrPr', 'm:pos') === 'top';
+      if (chr === '⏟') return `\\underbrace{${arg('m:e')}}`;
+      if (chr === '⏞') return `\\overbrace{${arg('m:e')}}`;
+      return `\\${top ? 'overset' : 'underset'}{${latexText(chr)}}{${arg('m:e')}}`;
+    }
+
+    case 'm:borderBox':
+      return `\\boxed{${arg('m:e')}}`;
+
+    case 'm:eqArr': {
+      const rows = childElements(node, 'm:e').map(latexOf);
+      return `\\begin{aligned}${rows.join(' \\\\ ')}\\end{aligned}`;
+    }
+
+    case 'm:m': {
+      const rows = childElements(node, 'm:mr').map(row => childElements(row, 'm:e').map(latexOf).join(' & '));
+      return `\\begin{matrix}${rows.join(' \\\\ ')}\\end{matrix}`;
+    }
+
+    default:
+      // Properties (m:rPr, m:ctrlPr, m:fPr, ...) hold no content
+      return name.endsWith('Pr') ? '' : latexOf(node);
+  }
+}
+
+/**
+ * Helper: LaTeX of a math run (m:r), with its style and script
+ */
+function latexRun(run: Element): string {
+  const text = runText(run);
+  const rPr = getChildElement(run, 'm:rPr');
+
+  // Normal text (m:nor) is not math
+  if (getChildElement(rPr, 'm:nor')) {
+    return `\\text{${text.replace(/[\\{}#%$&_^~]/g, ch => `\\${ch}`)}}`;
+  }
+
+  // Alignment points of equation arrays are written as &
+  const aligned = findParentWithTag(run, 'm:eqArr') !== null;
+  const latex = aligned
+    ? text.split('&').map(latexText).join('&')
+    : latexText(text);
+
+  const script = SCRIPTS[readProperty(run, 'm:rPr', 'm:scr') || ''];
+  const style = STYLES[readProperty(run, 'm:rPr', 'm:sty') || ''];
+  const command = script?.latex || (/[A-Za-z]/.test(text) ? style?.latex : undefined);
+  return command ? `${command}{${latex}}` : latex;
+}
+
+/**
+ * Helper: LaTeX of plain math text, with symbols as commands
+ */
+function latexText(text: string): string {
+  return joinLatex(Array.from(text, ch => LATEX_SYMBOLS[ch] ?? ch));
+}
+
+/**
+ * Helper: LaTeX of a function name or limit base; known names become commands like \sin
+ */
+function latexOperator(element: Element | null): string {
+  const text = element?.textContent?.trim() || '';
+  return FUNCTION_NAMES.has(text) ? `\\${text}` : latexOf(element);
+}
+
+/**
+ * Helper: Brace a script base or fraction part unless it is a single token
+ */
+function latexBase(latex: string): string {
+  return /^([A-Za-z0-9]|\\[A-Za-z]+)$/.test(latex) ? latex : `{${latex}}`;
+}
+
+/**
+ * Helper: Concatenate LaTeX, keeping commands apart from the letters after them
+ */
+function joinLatex(parts: string[]): string {
+  let result = '';
+  for (const part of parts) {
+    if (!part) continue;
+    if (/\\[A-Za-z]+$/.test(result) && /^[A-Za-z0-9]/.test(part)) result += ' ';
+    result += part;
+  }
+  return result;
+}
+
+/**
+ * Helper: MathML of the children of an element, in order
+ */
+function mathmlOf(element: Element | null): string {
+  let result = '';
+  for (let child = element?.firstElementChild; child; child = child.nextElementSibling) {
+    result += mathmlNode(child);
+  }
+  return result;
+}
+
+/**
+ * Convert one OMML element to MathML
+ */
+function mathmlNode(node: Element): string {
+  const name = elementName(node);
+  const arg = (childName: string) => `<mrow>${mathmlOf(getChildElement(node, childName))}</mrow>`;
+
+  switch (name) {
+    case 'm:r':
+      return mathmlRun(node);
+
+    case 'm:f':
+      switch (readProperty(node, 'm:fPr', 'm:type')) {
+        case 'lin':
+          return `<mrow>${arg('m:num')}<mo>/</mo>${arg('m:den')}</mrow>`;
+        case 'skw':
+          return `<mfrac bevelled="true">${arg('m:num')}${arg('m:den')}</mfrac>`;
+        case 'noBar':
+          return `<mfrac linethickness="0">${arg('m:num')}${arg('m:den')}</mfrac>`;
+        default:
+          return `<mfrac>${arg('m:num')}${arg('m:den')}</mfrac>`;
+      }
+
+    case 'm:sSup':
+      return `<msup>${arg('m:e')}${arg('m:sup')}</msup>`;
+    case 'm:sSub':
+      return `<msub>${arg('m:e')}${arg('m:sub')}</msub>`;
+    case 'm:sSubSup':
+      return `<msubsup>${arg('m:e')}${arg('m:sub')}${arg('m:sup')}</msubsup>`;
+    case 'm:sPre':
+      return `<mmultiscripts>${arg('m:e')}<mprescripts/>${arg('m:sub')}${arg('m:sup')}</mmultiscripts>`;
+
+    case 'm:rad': {
+      const degree = getChildElement(node, 'm:deg');
+      return degree?.firstElementChild && !readFlag(node, 'm:radPr', 'm:degHide')
+        ? `<mroot>${arg('m:e')}${arg('m:deg')}</mroot>`
+        : `<msqrt>${mathmlOf(getChildElement(node, 'm:e'))}</msqrt>`;
+    }
+
+    case 'm:d': {
+      const { begin, separator, end } = readDelimiters(node);
+      const items = childElements(node, 'm:e').map(e => `<mrow>${mathmlOf(e)}</mrow>`);
+      const open = begin ? `<mo fence="true">${escapeMarkup(begin)}</mo>` : '';
+      const close = end ? `<mo fence="true">${escapeMarkup(end)}</mo>` : '';
+      return `<mrow>${open}${items.join(`<mo separator="true">${escapeMarkup(separator)}</mo>`)}${close}</mrow>`;
+    }
+
+    case 'm:nary': {
+      const chr = readProperty(node, 'm:naryPr', 'm:chr') || '∫';
+      const hasSub = !readFlag(node, 'm:naryPr', 'm:subHide');
+      const hasSup = !readFlag(node, 'm:naryPr', 'm:supHide');
+      // Limits go under and over unless m:limLoc says subSup; integrals default to subSup
+      const limLoc = readProperty(node, 'm:naryPr', 'm:limLoc') || (/[∫∬∭∮]/.test(chr) ? 'subSup' : 'undOvr');
+      const [both, under, over] = limLoc === 'undOvr' ? ['munderover', 'munder', 'mover'] : ['msubsup', 'msub', 'msup'];
+      const operator = `<mo largeop="true">${escapeMarkup(chr)}</mo>`;
+      const scripted = hasSub && hasSup ? `<${both}>${operator}${arg('m:sub')}${arg('m:sup')}</${both}>`
+        : hasSub ? `<${under}>${operator}${arg('m:sub')}</${under}>`
+          : hasSup ? `<${over}>${operator}${arg('m:sup')}</${over}>`
+            : operator;
+      return `<mrow>${scripted}${arg('m:e')}</mrow>`;
+    }
+
+    case 'm:func':
+      return `<mrow>${arg('m:fName')}<mo>&#x2061;</mo>${arg('m:e')}</mrow>`;
+
+    case 'm:limLow':
+      return `<munder>${arg('m:e')}${arg('m:lim')}</munder>`;
+    case 'm:limUpp':
+      return `<mover>${arg('m:e')}${arg('m:lim')}</mover>`;
+
+    case 'm:acc': {
+      const chr = readProperty(node, 'm:accPr', 'm:chr') ?? '\u0302';
+      return `<mover accent="true">${arg('m:e')}<mo>${escapeMarkup(ACCENTS[chr]?.mo || chr)}</mo></mover>`;
+    }
+
+    case 'm:bar':
+      return readProperty(node, 'm:barPr', 'm:pos') === 'top'
+        ? `<mover accent="true">${arg('m:e')}<mo>&#x203E;</mo></mover>`
+        : `<munder accentunder="true">${arg('m:e')}<mo>_</mo></munder>`;
+
+    case 'm:groupChr': {
+      const chr = escapeMarkup(readProperty(node, 'm:groupChrPr', 'm:chr') ?? '⏟');
+      return readProperty(node, 'm:groupChrPr', 'm:pos') === 'top'
+        ? `<mover>${arg('m:e')}<mo>${chr}</mo></mover>`
+        : `<munder>${arg('m:e')}<mo>${chr}</mo></munder>`;
+    }
+
+    case 'm:borderBox':
+      return `<menclose notation="box">${mathmlOf(getChildElement(node, 'm:e'))}</menclose>`;
+
+    case 'm:eqArr': {
+      const rows = childElements(node, 'm:e').map(e => `<mtr><mtd>${mathmlOf(e)}</mtd></mtr>`);
+      return `<mtable>${rows.join('')}</mtable>`;
+    }
+
+    case 'm:m': {
+      const rows = childElements(node, 'm:mr').map(row =>
+        `<mtr>${childElements(row, 'm:e').map(e => `<mtd>${mathmlOf(e)}</mtd>`).join('')}</mtr>`
+      );
+      return `<mtable>${rows.join('')}</mtable>`;
+    }
+
+    default:
+      return name.endsWith('Pr') ? '' : mathmlOf(node);
+  }
+}
+
+/**
+ * Helper: MathML tokens of a math run (m:r): numbers, identifiers and operators
+ */
+function mathmlRun(run: Element): string {
+  const text = runText(run);
+  const rPr = getChildElement(run, 'm:rPr');
+  if (getChildElement(rPr, 'm:nor')) return `<mtext>${escapeMarkup(text)}</mtext>`;
+
+  const sty = readProperty(run, 'm:rPr', 'm:sty') || '';
+  const variant = SCRIPTS[readProperty(run, 'm:rPr', 'm:scr') || '']?.variant || STYLES[sty]?.variant;
+  // Upright runs and function names are words, not products of single-letter variables
+  const words = sty === 'p' || findParentWithTag(run, 'm:fName') !== null;
+  const aligned = findParentWithTag(run, 'm:eqArr') !== null;
+
+  let result = '';
+  const tokens = text.match(words ? /\d+(?:\.\d+)?|\p{L}+|\s+|./gu : /\d+(?:\.\d+)?|\p{L}|\s+|./gu) || [];
+  for (const token of tokens) {
+    if (/^\s+$/.test(token) || (aligned && token === '&')) continue;
+    if (/^\d/.test(token)) {
+      result += `<mn>${token}</mn>`;
+    } else if (/^\p{L}/u.test(token)) {
+      // Single letters are italic by default, longer names upright
+      const tokenVariant = variant === 'normal' && token.length > 1 ? undefined : variant;
+      result += `<mi${tokenVariant ? ` mathvariant="${tokenVariant}"` : ''}>${escapeMarkup(token)}</mi>`;
+    } else {
+      result += `<mo>${escapeMarkup(token)}</mo>`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Helper: Text of a math run (its m:t elements)
+ */
+function runText(run: Element): string {
+  return childElements(run, 'm:t').map(t => t.textContent || '').join('');
+}
+
+/**
+ * Helper: Opening, separator and closing characters of a delimiter (m:d); empty for none
+ */
+function readDelimiters(node: Element): { begin: string; separator: string; end: string } {
+  return {
+    begin: readProperty(node, 'm:dPr', 'm:begChr') ?? '(',
+    separator: readProperty(node, 'm:dPr', 'm:sepChr') ?? '|',
+    end: readProperty(node, 'm:dPr', 'm:endChr') ?? ')',
+  };
+}
+
+/**
+ * Helper: m:val of a property in a property element, e.g. m:fPr/m:type
+ */
+function readProperty(node: Element, propertiesName: string, name: string): string | null {
+  return getAttribute(getChildElement(getChildElement(node, propertiesName), name), 'm:val');
+}
+
+/**
+ * Helper: On/off property; present without m:val means on
+ */
+function readFlag(node: Element, propertiesName: string, name: string): boolean {
+  const property = getChildElement(getChildElement(node, propertiesName), name);
+  if (!property) return false;
+  const value = getAttribute(property, 'm:val');
+  return value === null || value === '1' || value === 'on' || value === 'true';
+}
+
+/**
+ * Helper: Direct children with a canonical name
+ */
+function childElements(parent: Element, name: string): Element[] {
+  const children: Element[] = [];
+  for (let child = parent.firstElementChild; child; child = child.nextElementSibling) {
+    if (elementName(child) === name) children.push(child);
+  }
+  return children;
+}
+
+/**
+ * Helper: Escape text for MathML markup
+ */
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -7,12 +7,40 @@
  * records in a hierarchical structure.
  */
 
-import type { ExtractedPresentation, SlideContent, PresentationMetadata, MediaInfo } from '../types';
+import type { 
+  ExtractedPresentation, 
+  SlideContent, 
+  PresentationMetadata, 
+  MediaInfo, 
+  ShapeInfo,
+  TextParagraph,
+  TextRun,
+  BulletInfo,
+  LinkInfo,
+  LinkAction,
+  CommentInfo,
+  MasterInfo,
+  PlaceholderInfo,
+  CustomShowInfo,
+  EmbeddedObjectInfo,
+  EmbeddedObjectRef,
+  TransitionInfo,
+  AnimationStep,
+  MediaUsage,
+  EmbeddedFontInfo,
+  EmbeddedFontStyle,
+  PresentationFileType,
+  VbaProjectInfo,
+  PresentationProperties,
+  SlideShowSettings
+} from '../types';
 import * as CFB from 'cfb';
-
-// CFB.find exists but TypeScript types don't expose it properly
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const cfbFind = (CFB as any).find as (cfb: ReturnType<typeof CFB.read>, path: string) => CFB.CFBEntry | null;
+import { createEmbeddedObject } from './embeddings';
+import { createFontReport } from './fontReport';
+import { getFileType } from './fileTypes';
+import { parseVbaProject, readVbaProject } from './vbaProject';
+import { SLIDE_SPACE, composeGroupSpace, type CoordinateSpace, type SpaceRect } from './groupSpace';
+import { createRc4CryptoApiCipher, PasswordRequiredError, InvalidPasswordError, UnsupportedEncryptionError } from './encryption';
 
 // ============================================================================
 // RECORD TYPES from [MS-PPT] specification
@@ -24,6 +52,21 @@ const RecordType = {
   RT_TextBytesAtom: 0x0FA8,      // ASCII/ANSI text (Windows-1252)
   RT_CString: 0x0FBA,            // Unicode string
   RT_TextHeaderAtom: 0x0F9F,     // Text type indicator
+  RT_StyleTextPropAtom: 0x0FA1,  // Paragraph and character formatting runs
+  RT_FontEntityAtom: 0x0FB7,     // Font name, indexed by record instance
+  RT_FontEmbedDataBlob: 0x0FB8,  // Embedded font data following its FontEntityAtom; instance is the style
+  
+  // Hyperlink and action records
+  RT_ExHyperlink: 0x0FD7,            // Hyperlink target, referenced by id
+  RT_ExHyperlinkAtom: 0x0FD3,
+  RT_InteractiveInfo: 0x0FF2,        // Action on a shape or text range
+  RT_InteractiveInfoAtom: 0x0FF3,
+  RT_TxInteractiveInfoAtom: 0x0FDF,  // Text range of the preceding InteractiveInfo
+  
+  // Comment records (PowerPoint 2002+), stored in the slide's PP10 binary tag
+  RT_BinaryTagDataBlob: 0x138B,
+  RT_Comment10: 0x2EE0,
+  RT_Comment10Atom: 0x2EE1,
   
   // Container records
   RT_Document: 0x03E8,
@@ -34,12 +77,58 @@ const RecordType = {
   RT_Drawing: 0x040C,
   RT_List: 0x07D0,
   
+  // Document atoms: slide and notes sizes, slide show settings
+  RT_DocumentAtom: 0x03E9,
+  RT_SlideShowDocInfoAtom: 0x0401,
+  
+  // Slide structure atoms
+  RT_SlideAtom: 0x03EF,          // Layout type and master reference of a slide
+  RT_SlidePersistAtom: 0x03F3,   // Entry of a SlideListWithText
+  RT_PlaceholderAtom: 0x0BC3,    // Placeholder type of a shape
+  RT_SlideShowSlideInfoAtom: 0x03F9,  // Transition settings and the hidden flag
+  RT_NamedShow: 0x0411,               // Custom show: name and slide ids
+  RT_NamedShowSlidesAtom: 0x0412,
+  RT_AnimationInfoAtom: 0x0FF1,       // Build effect of a shape (PowerPoint 97 animations)
+  
+  // Embedded OLE objects
+  RT_ExEmbed: 0x0FCC,            // Embedded object: ExOleObjAtom and its names
+  RT_ExOleObjAtom: 0x0FC3,
+  RT_ExOleObjStg: 0x1011,        // Object storage, referenced through the persist directory
+  RT_ExObjRefAtom: 0x0BC1,       // Reference from a shape to an embedded object
+  RT_PersistDirectoryAtom: 0x1772,
+  
+  // VBA project: the atom references an ExOleObjStg holding the project storage
+  RT_VBAInfo: 0x03FF,
+  RT_VBAInfoAtom: 0x0400,
+  
+  // Encryption: the session holds the RC4 CryptoAPI encryption info and is never encrypted itself
+  RT_UserEditAtom: 0x0FF5,
+  RT_CryptSession10Container: 0x2F14,
+  
+  // Movies and sounds, referenced from shapes by ExObjRefAtom as well
+  RT_ExMediaAtom: 0x1004,
+  RT_ExVideoContainer: 0x1005,   // ExMediaAtom and the video path (CString instance 1)
+  RT_ExAviMovie: 0x1006,
+  RT_ExMCIMovie: 0x1007,
+  RT_ExMIDIAudio: 0x100D,        // ExMediaAtom, name (CString instance 1) and path (instance 2)
+  RT_ExCDAudio: 0x100E,
+  RT_ExWAVAudioEmbedded: 0x100F,
+  RT_ExWAVAudioLink: 0x1010,
+  
   // Office Art containers
   OfficeArtSpContainer: 0xF004,
   OfficeArtClientTextbox: 0xF00D,
   OfficeArtDgContainer: 0xF002,
   OfficeArtSpgrContainer: 0xF003,
   
+  // Office Art shape records
+  OfficeArtFSPGR: 0xF009,        // Coordinate space of a group's children
+  OfficeArtFSp: 0xF00A,
+  OfficeArtFOPT: 0xF00B,
+  OfficeArtChildAnchor: 0xF00F,
+  OfficeArtClientAnchor: 0xF010,
+  OfficeArtTertiaryFOPT: 0xF122,
+  
   // Blip (image) records
   OfficeArtBlipJPEG: 0xF01D,
   OfficeArtBlipJPEG2: 0xF02A,
@@ -120,6 +209,13 @@ class BinaryReader {
     return val;
   }
 
+  readInt16LE(): number {
+    if (this.pos + 2 > this.data.length) return 0;
+    const val = this.view.getInt16(this.pos, true);
+    this.pos += 2;
+    return val;
+  }
+
   readInt32LE(): number {
     if (this.pos + 4 > this.data.length) return 0;
     const val = this.view.getInt32(this.pos, true);
@@ -190,9 +286,160 @@ interface ParseResult {
   texts: string[];
   images: MediaInfo[];
   slideTexts: Map<number, string[]>;
+  slideShapes: Map<number, ShapeInfo[]>;
+  slideParagraphs: Map<number, TextParagraph[]>;
+  fonts: string[];
+  /** Embedded styles, keyed by font index */
+  embeddedFonts: Map<number, EmbeddedFontStyle[]>;
+  hyperlinks: Map<number, HyperlinkTarget>;
+  slideLinks: Map<number, PendingLink[]>;
+  slideComments: Map<number, CommentInfo[]>;
+  /** Placeholders of each MainMaster, in stream order */
+  masters: PlaceholderInfo[][];
+  /** Slide ids of the masters, from the master SlideListWithText */
+  masterIds: number[];
+  slideLayouts: Map<number, SlideLayoutRef>;
+  /** Slide ids from the slide SlideListWithText, in presentation order */
+  slideIds: number[];
+  hiddenSlides: Set<number>;
+  namedShows: { name: string; slideIds: number[] }[];
+  /** Stream offsets of persist objects, keyed by persist id */
+  persistOffsets: Map<number, number>;
+  /** ExOleObjStg records, keyed by stream offset */
+  oleStorages: Map<number, { compressed: boolean; data: Uint8Array }>;
+  oleObjects: OleObjectEntry[];
+  mediaObjects: MediaObjectEntry[];
+  slideObjects: Map<number, { exObjId: number; shapeId?: number }[]>;
+  slideTransitions: Map<number, TransitionInfo>;
+  /** Build steps with their orderID, numbered by click once the slide is complete */
+  slideAnimations: Map<number, { order: number; step: AnimationStep }[]>;
+  /** Persist id of the VBA project storage, from VBAInfoAtom */
+  vbaPersistId?: number;
+  /** Sizes, numbering and direction from DocumentAtom */
+  properties?: PresentationProperties;
+  /** Settings from SlideShowDocInfoAtom */
+  show?: SlideShowSettings;
   metadata: Partial<PresentationMetadata>;
 }
 
+/**
+ * Position of the record walk within the document
+ */
+interface ParseCursor {
+  slide: number;
+  inSlide: boolean;
+  shape: ShapeState | null;
+  lastText: PendingText | null;
+  lastLink: PendingLink | null;
+  /** Placeholders of the MainMaster being walked */
+  master: PlaceholderInfo[] | null;
+  /** Instance of the enclosing SlideListWithText (0 slides, 1 masters, 2 notes), -1 outside one */
+  slideList: number;
+  /** Mapping from the enclosing group's coordinate space to slide master units */
+  space: CoordinateSpace;
+}
+
+/**
+ * SlideAtom of a slide: its layout type, master and placeholder types
+ */
+interface SlideLayoutRef {
+  geom: number;
+  masterId: number;
+  placeholders: string[];
+}
+
+/**
+ * Text atom waiting for the StyleTextPropAtom that follows it
+ */
+interface PendingText {
+  raw: string;
+  /** One entry per \r-delimited paragraph of raw, including empty ones */
+  paragraphs: TextParagraph[];
+}
+
+/**
+ * ExHyperlink strings, keyed by exHyperlinkId
+ */
+interface HyperlinkTarget {
+  friendlyName?: string;
+  target?: string;
+  location?: string;
+}
+
+/**
+ * ExEmbed contents; the storage is found through persistIdRef
+ */
+interface OleObjectEntry {
+  exObjId: number;
+  persistIdRef: number;
+  name?: string;
+  progId?: string;
+}
+
+/**
+ * Movie or sound from the ExObjList
+ */
+interface MediaObjectEntry {
+  exObjId: number;
+  kind: MediaUsage['kind'];
+  name?: string;
+  path?: string;
+  /** Linked file; only WAV sounds are embedded (in the SoundCollection) */
+  external: boolean;
+}
+
+/**
+ * InteractiveInfoAtom fields, resolved against the ExHyperlinks once the stream is parsed
+ */
+interface PendingLink {
+  text: string;
+  hover: boolean;
+  shapeId?: number;
+  action: number;
+  jump: number;
+  hyperlinkType: number;
+  hyperlinkId: number;
+}
+
+/**
+ * Shape being assembled from an OfficeArtSpContainer
+ */
+interface ShapeState {
+  info: ShapeInfo;
+  keep: boolean;
+  links: PendingLink[];
+  anchor?: { left: number; top: number; right: number; bottom: number };
+  /** Child coordinate space of a group shape (OfficeArtFSPGR) */
+  childRect?: { left: number; top: number; right: number; bottom: number };
+  rotation: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+// OfficeArtFSp flags
+const FSP_GROUP = 0x0001;
+const FSP_PATRIARCH = 0x0004;
+const FSP_DELETED = 0x0008;
+const FSP_OLE_SHAPE = 0x0010;
+const FSP_FLIP_H = 0x0040;
+const FSP_FLIP_V = 0x0080;
+const FSP_CONNECTOR = 0x0100;
+const FSP_BACKGROUND = 0x0400;
+
+// MSOSPT shape types stored in the OfficeArtFSp record instance
+const MSOSPT_PICTURE_FRAME = 75;
+const MSOSPT_TEXT_BOX = 202;
+
+// OfficeArtFOPT property ids
+const OPID_ROTATION = 0x0004;
+const OPID_NAME = 0x0380;
+const OPID_DESCRIPTION = 0x0381;
+// Set on property ids whose value is the byte length of data after the property table
+const OPID_COMPLEX = 0x8000;
+
+// EMU per master unit (master units are 576 per inch)
+const EMU_PER_MASTER_UNIT = 1587.5;
+
 /**
  * Parse the PowerPoint Document stream
  */
@@ -202,12 +449,41 @@ function parsePPTStream(data: Uint8Array): ParseResult {
     texts: [],
     images: [],
     slideTexts: new Map(),
+    slideShapes: new Map(),
+    slideParagraphs: new Map(),
+    fonts: [],
+    embeddedFonts: new Map(),
+    hyperlinks: new Map(),
+    slideLinks: new Map(),
+    slideComments: new Map(),
+    masters: [],
+    masterIds: [],
+    slideLayouts: new Map(),
+    slideIds: [],
+    hiddenSlides: new Set(),
+    namedShows: [],
+    persistOffsets: new Map(),
+    oleStorages: new Map(),
+    oleObjects: [],
+    mediaObjects: [],
+    slideObjects: new Map(),
+    slideTransitions: new Map(),
+    slideAnimations: new Map(),
     metadata: {},
   };
   
-  let currentSlide = 0;
+  const cursor: ParseCursor = {
+    slide: 0,
+    inSlide: false,
+    shape: null,
+    lastText: null,
+    lastLink: null,
+    master: null,
+    slideList: -1,
+    space: SLIDE_SPACE,
+  };
   
-  parseRecords(reader, data.length, result, 0, () => currentSlide, (n) => { currentSlide = n; });
+  parseRecords(reader, data.length, result, 0, cursor);
   
   return result;
 }
@@ -220,8 +496,7 @@ function parseRecords(
   endPos: number,
   result: ParseResult,
   depth: number,
-  getCurrentSlide: () => number,
-  setCurrentSlide: (n: number) => void
+  cursor: ParseCursor
 ): void {
   const maxDepth = 50;
   if (depth > maxDepth) return;
@@ -239,6 +514,7 @@ function parseRecords(
     const recLen = reader.readUInt32LE();
     
     const recVer = recVerInstance & 0x0F;
+    const recInstance = recVerInstance >> 4;
     
     // Validate record
     if (recLen > 100000000 || reader.pos + recLen > endPos + 8) {
@@ -254,9 +530,12 @@ function parseRecords(
         // Unicode text (UTF-16LE)
         const text = reader.readUTF16LE(recLen);
         const cleaned = cleanText(text);
+        cursor.lastText = null;
         if (cleaned && isValidText(cleaned)) {
           result.texts.push(cleaned);
-          addToSlide(result.slideTexts, getCurrentSlide(), cleaned);
+          addToSlide(result.slideTexts, cursor.slide, cleaned);
+          addShapeText(cursor.shape, cleaned);
+          cursor.lastText = addTextParagraphs(result, cursor, text);
         }
         break;
       }
@@ -265,9 +544,12 @@ function parseRecords(
         // ANSI text (Windows-1252)
         const text = reader.readWindows1252(recLen);
         const cleaned = cleanText(text);
+        cursor.lastText = null;
         if (cleaned && isValidText(cleaned)) {
           result.texts.push(cleaned);
-          addToSlide(result.slideTexts, getCurrentSlide(), cleaned);
+          addToSlide(result.slideTexts, cursor.slide, cleaned);
+          addShapeText(cursor.shape, cleaned);
+          cursor.lastText = addTextParagraphs(result, cursor, text);
         }
         break;
       }
@@ -278,17 +560,429 @@ function parseRecords(
         const cleaned = cleanText(text);
         if (cleaned && isValidText(cleaned) && !isSystemString(cleaned)) {
           result.texts.push(cleaned);
-          addToSlide(result.slideTexts, getCurrentSlide(), cleaned);
+          addToSlide(result.slideTexts, cursor.slide, cleaned);
+        }
+        break;
+      }
+      
+      case RecordType.RT_StyleTextPropAtom: {
+        // Formatting for the text atom just before it
+        if (cursor.lastText) {
+          applyTextStyles(reader, recordEnd, cursor.lastText, result.fonts);
+        }
+        break;
+      }
+      
+      case RecordType.RT_ExHyperlink: {
+        // Read directly so its CStrings don't end up in the slide text
+        readExHyperlink(reader, recordEnd, result.hyperlinks);
+        break;
+      }
+      
+      case RecordType.RT_BinaryTagDataBlob: {
+        // Extension data of a slide; only its comments are read
+        if (cursor.inSlide) {
+          readSlideComments(reader, recordEnd, result.slideComments, cursor.slide);
+        }
+        break;
+      }
+      
+      case RecordType.RT_InteractiveInfo: {
+        // recInstance 0 is a mouse click action, 1 a mouse-over action
+        if (!cursor.shape || recLen < 24) break;
+        reader.skip(2);
+        const atomType = reader.readUInt16LE();
+        const atomLen = reader.readUInt32LE();
+        if (atomType === RecordType.RT_InteractiveInfoAtom && atomLen >= 16) {
+          reader.skip(4); // soundIdRef
+          const hyperlinkId = reader.readUInt32LE();
+          const action = reader.readUInt8();
+          reader.skip(1); // oleVerb
+          const jump = reader.readUInt8();
+          reader.skip(1); // flags
+          const hyperlinkType = reader.readUInt8();
+          
+          const link: PendingLink = { text: '', hover: recInstance === 1, action, jump, hyperlinkType, hyperlinkId };
+          if (cursor.shape.info.id !== undefined) link.shapeId = cursor.shape.info.id;
+          cursor.shape.links.push(link);
+          cursor.lastLink = link;
+        }
+        break;
+      }
+      
+      case RecordType.RT_TxInteractiveInfoAtom: {
+        // Character range of the text the last InteractiveInfo applies to
+        if (cursor.lastLink && cursor.lastText && recLen >= 8) {
+          const begin = reader.readUInt32LE();
+          const end = reader.readUInt32LE();
+          cursor.lastLink.text = cleanRunText(cursor.lastText.raw.substring(begin, end)).trim();
+        }
+        cursor.lastLink = null;
+        break;
+      }
+      
+      case RecordType.RT_FontEntityAtom: {
+        // lfFaceName: 32 UTF-16 characters, null-terminated
+        if (recLen >= 64) {
+          result.fonts[recInstance] = reader.readUTF16LE(64);
+        }
+        break;
+      }
+      
+      case RecordType.RT_FontEmbedDataBlob: {
+        // Belongs to the font entity just before it
+        const fontIndex = result.fonts.length - 1;
+        const style = EMBEDDED_FONT_STYLES[recInstance];
+        if (fontIndex >= 0 && style) {
+          if (!result.embeddedFonts.has(fontIndex)) result.embeddedFonts.set(fontIndex, []);
+          result.embeddedFonts.get(fontIndex)!.push(style);
+        }
+        break;
+      }
+      
+      case RecordType.RT_SlideListWithText: {
+        const previousList = cursor.slideList;
+        cursor.slideList = recInstance;
+        const subReader = reader.slice(reader.pos, recordEnd);
+        parseRecords(subReader, recLen, result, depth + 1, cursor);
+        cursor.slideList = previousList;
+        break;
+      }
+      
+      case RecordType.RT_SlidePersistAtom: {
+        // persistIdRef, flags, cTexts, slideId
+        if ((cursor.slideList === 0 || cursor.slideList === 1) && recLen >= 16) {
+          reader.skip(12);
+          const slideId = reader.readUInt32LE();
+          (cursor.slideList === 0 ? result.slideIds : result.masterIds).push(slideId);
+        }
+        break;
+      }
+      
+      case RecordType.RT_MainMaster: {
+        const placeholders: PlaceholderInfo[] = [];
+        cursor.master = placeholders;
+        const subReader = reader.slice(reader.pos, recordEnd);
+        parseRecords(subReader, recLen, result, depth + 1, cursor);
+        cursor.master = null;
+        result.masters.push(placeholders);
+        break;
+      }
+      
+      case RecordType.RT_SlideAtom: {
+        // geom (SlideLayoutType), rgPlaceholderTypes[8], masterIdRef
+        if (cursor.inSlide && recLen >= 16) {
+          const geom = reader.readInt32LE();
+          const placeholderTypes = reader.readBytes(8);
+          const masterId = reader.readUInt32LE();
+          result.slideLayouts.set(cursor.slide, {
+            geom,
+            masterId,
+            placeholders: Array.from(placeholderTypes)
+              .filter(type => type !== 0)
+              .map(type => PLACEHOLDER_TYPES[type] || 'obj'),
+          });
+        }
+        break;
+      }
+      
+      case RecordType.RT_SlideShowSlideInfoAtom: {
+        // slideTime, soundIdRef, effectDirection, effectType, flags, speed
+        if (cursor.inSlide && recLen >= 15) {
+          const slideTime = reader.readInt32LE();
+          reader.skip(5);
+          const effectType = reader.readUInt8();
+          const flags = reader.readUInt16LE();
+          const speed = reader.readUInt8();
+          
+          if (flags & SSI_HIDDEN) {
+            result.hiddenSlides.add(cursor.slide);
+          }
+          const autoAdvance = (flags & SSI_AUTO_ADVANCE) !== 0;
+          if (effectType !== 0 || autoAdvance) {
+            const transition: TransitionInfo = {
+              type: effectType === 0 ? 'none' : EFFECT_NAMES[effectType] || `effect ${effectType}`,
+              speed: TRANSITION_SPEEDS[speed],
+              advanceOnClick: (flags & SSI_MANUAL_ADVANCE) !== 0,
+            };
+            if (autoAdvance) transition.advanceAfter = slideTime;
+            result.slideTransitions.set(cursor.slide, transition);
+          }
+        }
+        break;
+      }
+      
+      case RecordType.RT_AnimationInfoAtom: {
+        // dimColor, flags, soundIdRef, delayTime, orderID, slideCount, animBuildType, animEffect
+        if (cursor.inSlide && cursor.shape && recLen >= 22) {
+          reader.skip(4);
+          const flags = reader.readUInt32LE();
+          reader.skip(4);
+          const delay = reader.readInt32LE();
+          const order = reader.readUInt16LE();
+          reader.skip(3);
+          const effect = reader.readUInt8();
+          
+          const step: AnimationStep = {
+            click: 0,
+            trigger: flags & ANIM_AUTOMATIC ? 'afterPrevious' : 'onClick',
+            effectClass: 'entrance',
+            effect: effect === 0 ? 'appear' : EFFECT_NAMES[effect] || `effect ${effect}`,
+            delay: Math.max(delay, 0),
+          };
+          if (cursor.shape.info.id !== undefined) step.shapeId = cursor.shape.info.id;
+          if (cursor.shape.info.name) step.shapeName = cursor.shape.info.name;
+          
+          if (!result.slideAnimations.has(cursor.slide)) result.slideAnimations.set(cursor.slide, []);
+          result.slideAnimations.get(cursor.slide)!.push({ order, step });
+        }
+        break;
+      }
+      
+      case RecordType.RT_NamedShow: {
+        // Read directly so the show name doesn't end up in the slide text
+        readNamedShow(reader, recordEnd, result.namedShows);
+        break;
+      }
+      
+      case RecordType.RT_ExEmbed: {
+        // Read directly so the object names don't end up in the slide text
+        readExEmbed(reader, recordEnd, result.oleObjects);
+        break;
+      }
+      
+      case RecordType.RT_ExAviMovie:
+      case RecordType.RT_ExMCIMovie:
+      case RecordType.RT_ExMIDIAudio:
+      case RecordType.RT_ExCDAudio:
+      case RecordType.RT_ExWAVAudioEmbedded:
+      case RecordType.RT_ExWAVAudioLink: {
+        // Read directly so file names don't end up in the slide text
+        const entry = readExMedia(reader, recordEnd, recType);
+        if (entry) result.mediaObjects.push(entry);
+        break;
+      }
+      
+      case RecordType.RT_ExOleObjStg: {
+        // Persist objects live at the top level, so the position is a stream offset
+        if (depth === 0) {
+          result.oleStorages.set(startPos, { compressed: recInstance === 1, data: reader.readBytes(recLen) });
+        }
+        break;
+      }
+      
+      case RecordType.RT_DocumentAtom: {
+        if (recLen >= 40) result.properties = readDocumentAtom(reader);
+        break;
+      }
+      
+      case RecordType.RT_SlideShowDocInfoAtom: {
+        if (recLen >= 80) result.show = readSlideShowDocInfo(reader);
+        break;
+      }
+      
+      case RecordType.RT_CryptSession10Container:
+        // Encryption info, not records
+        break;
+      
+      case RecordType.RT_VBAInfoAtom: {
+        // persistIdRef, fHasMacros, version
+        if (recLen >= 8) {
+          const persistIdRef = reader.readUInt32LE();
+          if (reader.readUInt32LE() === 1) result.vbaPersistId = persistIdRef;
+        }
+        break;
+      }
+      
+      case RecordType.RT_PersistDirectoryAtom: {
+        // Entries of persistId (20 bits) and count (12 bits), each followed by that many offsets.
+        // Later directories (incremental saves) override earlier ones.
+        while (reader.pos + 4 <= recordEnd) {
+          const entry = reader.readUInt32LE();
+          const persistId = entry & 0xFFFFF;
+          const count = entry >>> 20;
+          for (let i = 0; i < count && reader.pos + 4 <= recordEnd; i++) {
+            result.persistOffsets.set(persistId + i, reader.readUInt32LE());
+          }
+        }
+        break;
+      }
+      
+      case RecordType.RT_ExObjRefAtom: {
+        if (cursor.inSlide && recLen >= 4) {
+          const ref: { exObjId: number; shapeId?: number } = { exObjId: reader.readUInt32LE() };
+          if (cursor.shape?.info.id !== undefined) ref.shapeId = cursor.shape.info.id;
+          if (!result.slideObjects.has(cursor.slide)) result.slideObjects.set(cursor.slide, []);
+          result.slideObjects.get(cursor.slide)!.push(ref);
+        }
+        break;
+      }
+      
+      case RecordType.RT_PlaceholderAtom: {
+        // position, placementId (PlaceholderEnum), size
+        if (cursor.master && cursor.shape && recLen >= 8) {
+          const position = reader.readInt32LE();
+          const placementId = reader.readUInt8();
+          const placeholder: PlaceholderInfo = { type: PLACEHOLDER_TYPES[placementId] || 'obj' };
+          if (position >= 0) placeholder.index = position;
+          cursor.master.push(placeholder);
         }
         break;
       }
       
       case RecordType.RT_Slide: {
         // New slide
-        setCurrentSlide(getCurrentSlide() + 1);
+        cursor.slide++;
+        cursor.inSlide = true;
         // Recurse into slide container
         const subReader = reader.slice(reader.pos, recordEnd);
-        parseRecords(subReader, recLen, result, depth + 1, getCurrentSlide, setCurrentSlide);
+        parseRecords(subReader, recLen, result, depth + 1, cursor);
+        cursor.inSlide = false;
+        break;
+      }
+      
+      case RecordType.OfficeArtSpContainer: {
+        // Shape: its FSp, FOPT, anchor and text records are children of this container
+        const state: ShapeState = {
+          info: { type: 'Shape', text: '', kind: 'shape' },
+          keep: true,
+          links: [],
+          rotation: 0,
+          flipH: false,
+          flipV: false,
+        };
+        const parentShape = cursor.shape;
+        cursor.shape = state;
+        cursor.lastText = null;
+        cursor.lastLink = null;
+        const subReader = reader.slice(reader.pos, recordEnd);
+        parseRecords(subReader, recLen, result, depth + 1, cursor);
+        cursor.shape = parentShape;
+        cursor.lastText = null;
+        cursor.lastLink = null;
+        
+        // The first shape of a group container is the group itself; its siblings
+        // are anchored in its child space. The patriarch has no anchor and keeps slide space.
+        if (state.childRect && state.anchor) {
+          cursor.space = composeGroupSpace(cursor.space, toSpaceRect(state.anchor), toSpaceRect(state.childRect));
+        }
+        
+        if (cursor.inSlide && state.keep) {
+          finishShape(state, cursor.space);
+          addShapeToSlide(result.slideShapes, cursor.slide, state.info);
+          addShapeLinks(result.slideLinks, cursor.slide, state);
+        }
+        break;
+      }
+      
+      case RecordType.OfficeArtSpgrContainer: {
+        // Group: the child space set by its group shape ends with the container
+        const parentSpace = cursor.space;
+        const subReader = reader.slice(reader.pos, recordEnd);
+        parseRecords(subReader, recLen, result, depth + 1, cursor);
+        cursor.space = parentSpace;
+        break;
+      }
+      
+      case RecordType.OfficeArtFSPGR: {
+        if (cursor.shape && recLen >= 16) {
+          const left = reader.readInt32LE();
+          const top = reader.readInt32LE();
+          const right = reader.readInt32LE();
+          const bottom = reader.readInt32LE();
+          cursor.shape.childRect = { left, top, right, bottom };
+        }
+        break;
+      }
+      
+      case RecordType.OfficeArtFSp: {
+        if (cursor.shape && recLen >= 8) {
+          const spid = reader.readUInt32LE();
+          const flags = reader.readUInt32LE();
+          const shape = cursor.shape;
+          
+          shape.info.id = spid;
+          shape.keep = !(flags & (FSP_GROUP | FSP_PATRIARCH | FSP_DELETED | FSP_BACKGROUND));
+          shape.flipH = !!(flags & FSP_FLIP_H);
+          shape.flipV = !!(flags & FSP_FLIP_V);
+          
+          if (flags & FSP_CONNECTOR) {
+            shape.info.kind = 'connector';
+            shape.info.type = 'Connector';
+          } else if (recInstance === MSOSPT_PICTURE_FRAME) {
+            shape.info.kind = 'picture';
+            shape.info.type = 'Picture';
+          } else if (flags & FSP_OLE_SHAPE) {
+            shape.info.type = 'OLE Object';
+          } else if (recInstance === MSOSPT_TEXT_BOX) {
+            shape.info.type = 'Text Box';
+          }
+        }
+        break;
+      }
+      
+      case RecordType.OfficeArtFOPT:
+      case RecordType.OfficeArtTertiaryFOPT: {
+        if (cursor.shape) {
+          // recInstance is the number of 6-byte property entries
+          const complex: { opid: number; length: number }[] = [];
+          for (let i = 0; i < recInstance && reader.pos + 6 <= recordEnd; i++) {
+            const id = reader.readUInt16LE();
+            const opid = id & 0x3FFF;
+            const value = reader.readInt32LE();
+            if (id & OPID_COMPLEX) {
+              complex.push({ opid, length: value });
+            } else if (opid === OPID_ROTATION) {
+              // FixedPoint 16.16 degrees
+              cursor.shape.rotation = value / 65536;
+            }
+          }
+
+          // Complex values follow the table in the same order
+          for (const { opid, length } of complex) {
+            if (length < 0 || reader.pos + length > recordEnd) break;
+            if (opid === OPID_NAME || opid === OPID_DESCRIPTION) {
+              const text = reader.readUTF16LE(length);
+              if (text && opid === OPID_NAME) cursor.shape.info.name = text;
+              if (text && opid === OPID_DESCRIPTION) cursor.shape.info.altText = text;
+            } else {
+              reader.skip(length);
+            }
+          }
+        }
+        break;
+      }
+      
+      case RecordType.OfficeArtClientAnchor: {
+        if (cursor.shape) {
+          if (recLen >= 16) {
+            // RectStruct: top, left, right, bottom
+            const top = reader.readInt32LE();
+            const left = reader.readInt32LE();
+            const right = reader.readInt32LE();
+            const bottom = reader.readInt32LE();
+            cursor.shape.anchor = { left, top, right, bottom };
+          } else if (recLen >= 8) {
+            // SmallRectStruct: top, left, right, bottom
+            const top = reader.readInt16LE();
+            const left = reader.readInt16LE();
+            const right = reader.readInt16LE();
+            const bottom = reader.readInt16LE();
+            cursor.shape.anchor = { left, top, right, bottom };
+          }
+        }
+        break;
+      }
+      
+      case RecordType.OfficeArtChildAnchor: {
+        // Shapes inside a group are anchored in the group's coordinate space
+        if (cursor.shape && recLen >= 16) {
+          const left = reader.readInt32LE();
+          const top = reader.readInt32LE();
+          const right = reader.readInt32LE();
+          const bottom = reader.readInt32LE();
+          cursor.shape.anchor = { left, top, right, bottom };
+        }
         break;
       }
       
@@ -334,7 +1028,7 @@ function parseRecords(
         // Container records have recVer = 0xF
         if (recVer === 0xF || CONTAINER_TYPES.has(recType)) {
           const subReader = reader.slice(reader.pos, recordEnd);
-          parseRecords(subReader, recLen, result, depth + 1, getCurrentSlide, setCurrentSlide);
+          parseRecords(subReader, recLen, result, depth + 1, cursor);
         }
         break;
       }
@@ -351,6 +1045,878 @@ function addToSlide(slideTexts: Map<number, string[]>, slideNum: number, text: s
   slideTexts.get(slideNum)!.push(text);
 }
 
+/**
+ * Record a shape's actions on its slide; shape-level actions take the shape's text as anchor
+ */
+function addShapeLinks(slideLinks: Map<number, PendingLink[]>, slideNum: number, shape: ShapeState): void {
+  if (shape.links.length === 0) return;
+  if (!slideLinks.has(slideNum)) {
+    slideLinks.set(slideNum, []);
+  }
+  for (const link of shape.links) {
+    if (!link.text) link.text = shape.info.text;
+    slideLinks.get(slideNum)!.push(link);
+  }
+}
+
+function addShapeToSlide(slideShapes: Map<number, ShapeInfo[]>, slideNum: number, shape: ShapeInfo): void {
+  if (!slideShapes.has(slideNum)) {
+    slideShapes.set(slideNum, []);
+  }
+  slideShapes.get(slideNum)!.push(shape);
+}
+
+function addShapeText(shape: ShapeState | null, text: string): void {
+  if (shape) {
+    shape.info.text = shape.info.text ? `${shape.info.text} ${text}` : text;
+  }
+}
+
+/**
+ * Read an ExHyperlink container: ExHyperlinkAtom (id) and CStrings
+ * (instance 0 friendly name, 1 target, 3 location)
+ */
+function readExHyperlink(reader: BinaryReader, recordEnd: number, hyperlinks: Map<number, HyperlinkTarget>): void {
+  let id: number | undefined;
+  const hyperlink: HyperlinkTarget = {};
+  
+  while (reader.pos + 8 <= recordEnd) {
+    const instance = reader.readUInt16LE() >> 4;
+    const type = reader.readUInt16LE();
+    const len = reader.readUInt32LE();
+    const childEnd = reader.pos + len;
+    if (childEnd > recordEnd) break;
+    
+    if (type === RecordType.RT_ExHyperlinkAtom && len >= 4) {
+      id = reader.readUInt32LE();
+    } else if (type === RecordType.RT_CString) {
+      const value = reader.readUTF16LE(len);
+      if (instance === 0) hyperlink.friendlyName = value;
+      else if (instance === 1) hyperlink.target = value;
+      else if (instance === 3) hyperlink.location = value;
+    }
+    reader.seek(childEnd);
+  }
+  
+  if (id !== undefined) {
+    hyperlinks.set(id, hyperlink);
+  }
+}
+
+// SlideShowSlideInfoAtom flags
+const SSI_MANUAL_ADVANCE = 0x0001;
+const SSI_HIDDEN = 0x0004;
+const SSI_AUTO_ADVANCE = 0x0400;
+
+// AnimationInfoAtom flags
+const ANIM_AUTOMATIC = 0x0004;
+
+const TRANSITION_SPEEDS: Record<number, TransitionInfo['speed']> = { 0: 'slow', 1: 'med', 2: 'fast' };
+
+// Record instance of FontEmbedDataBlob
+const EMBEDDED_FONT_STYLES: Record<number, EmbeddedFontStyle> = { 0: 'regular', 1: 'bold', 2: 'italic', 3: 'boldItalic' };
+
+// effectType of SlideShowSlideInfoAtom and animEffect of AnimationInfoAtom, named as in PPTX
+const EFFECT_NAMES: Record<number, string> = {
+  1: 'random',
+  2: 'blinds',
+  3: 'checker',
+  4: 'cover',
+  5: 'dissolve',
+  6: 'fade',
+  7: 'pull',
+  8: 'randomBar',
+  9: 'strips',
+  10: 'wipe',
+  11: 'zoom',
+  12: 'fly',
+  13: 'split',
+  14: 'flash',
+  17: 'diamond',
+  18: 'plus',
+  19: 'wedge',
+  20: 'push',
+  21: 'comb',
+  22: 'newsflash',
+  23: 'fade',
+  26: 'wheel',
+  27: 'circle',
+};
+
+/**
+ * Read an ExEmbed container: the ExOleObjAtom and the CStrings
+ * (instance 1 menu name, 2 ProgID)
+ */
+function readExEmbed(reader: BinaryReader, recordEnd: number, oleObjects: OleObjectEntry[]): void {
+  let entry: OleObjectEntry | undefined;
+  const names: { name?: string; progId?: string } = {};
+  
+  while (reader.pos + 8 <= recordEnd) {
+    const instance = reader.readUInt16LE() >> 4;
+    const type = reader.readUInt16LE();
+    const len = reader.readUInt32LE();
+    const childEnd = reader.pos + len;
+    if (childEnd > recordEnd) break;
+    
+    if (type === RecordType.RT_ExOleObjAtom && len >= 20) {
+      // drawAspect, type, exObjId, subType, persistIdRef
+      reader.skip(8);
+      const exObjId = reader.readUInt32LE();
+      reader.skip(4);
+      entry = { exObjId, persistIdRef: reader.readUInt32LE() };
+    } else if (type === RecordType.RT_CString) {
+      const value = reader.readUTF16LE(len);
+      if (instance === 1) names.name = value;
+      else if (instance === 2) names.progId = value;
+    }
+    reader.seek(childEnd);
+  }
+  
+  if (entry) {
+    oleObjects.push({ ...entry, ...names });
+  }
+}
+
+/**
+ * Read a movie or sound container. Movies keep their ExMediaAtom and path in an
+ * ExVideoContainer; sounds hold them directly, with the name as CString instance 1.
+ */
+function readExMedia(reader: BinaryReader, recordEnd: number, recType: number): MediaObjectEntry | null {
+  const isVideo = recType === RecordType.RT_ExAviMovie || recType === RecordType.RT_ExMCIMovie;
+  let exObjId: number | undefined;
+  const entry: Omit<MediaObjectEntry, 'exObjId'> = {
+    kind: isVideo ? 'video' : 'audio',
+    external: recType !== RecordType.RT_ExWAVAudioEmbedded,
+  };
+  
+  let end = recordEnd;
+  while (reader.pos + 8 <= end) {
+    const instance = reader.readUInt16LE() >> 4;
+    const type = reader.readUInt16LE();
+    const len = reader.readUInt32LE();
+    const childEnd = reader.pos + len;
+    if (childEnd > end) break;
+    
+    if (type === RecordType.RT_ExVideoContainer) {
+      // Step into the container
+      end = childEnd;
+      continue;
+    }
+    if (type === RecordType.RT_ExMediaAtom && len >= 4) {
+      exObjId = reader.readUInt32LE();
+    } else if (type === RecordType.RT_CString) {
+      const value = reader.readUTF16LE(len);
+      if (isVideo ? instance === 1 : instance === 2) entry.path = value;
+      else if (!isVideo && instance === 1) entry.name = value;
+    }
+    reader.seek(childEnd);
+  }
+  
+  return exObjId !== undefined ? { exObjId, ...entry } : null;
+}
+
+/**
+ * Read the Comment10 containers in a slide's binary tag data.
+ * Each holds CStrings (instance 0 author, 1 text, 2 initials) and a Comment10Atom
+ * with the index, a SYSTEMTIME and the anchor in master units.
+ */
+function readSlideComments(
+  reader: BinaryReader,
+  recordEnd: number,
+  slideComments: Map<number, CommentInfo[]>,
+  slideNum: number
+): void {
+  while (reader.pos + 8 <= recordEnd) {
+    reader.skip(2);
+    const type = reader.readUInt16LE();
+    const len = reader.readUInt32LE();
+    const containerEnd = reader.pos + len;
+    if (containerEnd > recordEnd) break;
+    
+    if (type === RecordType.RT_Comment10) {
+      const comment: CommentInfo = { author: '', text: '' };
+      
+      while (reader.pos + 8 <= containerEnd) {
+        const instance = reader.readUInt16LE() >> 4;
+        const childType = reader.readUInt16LE();
+        const childLen = reader.readUInt32LE();
+        const childEnd = reader.pos + childLen;
+        if (childEnd > containerEnd) break;
+        
+        if (childType === RecordType.RT_CString) {
+          const value = reader.readUTF16LE(childLen);
+          if (instance === 0) comment.author = value;
+          else if (instance === 1) comment.text = value.replace(/\r/g, '\n');
+          else if (instance === 2 && value) comment.initials = value;
+        } else if (childType === RecordType.RT_Comment10Atom && childLen >= 28) {
+          reader.skip(4); // index
+          comment.date = readSystemTime(reader);
+          const x = reader.readInt32LE();
+          const y = reader.readInt32LE();
+          comment.position = { x: x / 8, y: y / 8 };
+        }
+        reader.seek(childEnd);
+      }
+      
+      if (!comment.author) comment.author = 'Unknown';
+      if (!slideComments.has(slideNum)) {
+        slideComments.set(slideNum, []);
+      }
+      slideComments.get(slideNum)!.push(comment);
+    }
+    reader.seek(containerEnd);
+  }
+}
+
+/**
+ * Helper: Read a SYSTEMTIME as a local timestamp, e.g. "2024-03-05T14:22:10.123"
+ */
+function readSystemTime(reader: BinaryReader): string {
+  const year = reader.readUInt16LE();
+  const month = reader.readUInt16LE();
+  reader.skip(2); // day of week
+  const day = reader.readUInt16LE();
+  const hour = reader.readUInt16LE();
+  const minute = reader.readUInt16LE();
+  const second = reader.readUInt16LE();
+  const millis = reader.readUInt16LE();
+  
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:${pad(second)}.${pad(millis, 3)}`;
+}
+
+// PlaceholderEnum values mapped to ST_PlaceholderType
+const PLACEHOLDER_TYPES: Record<number, string> = {
+  0x01: 'title',     // MasterTitle
+  0x02: 'body',      // MasterBody
+  0x03: 'ctrTitle',  // MasterCenterTitle
+  0x04: 'subTitle',  // MasterSubTitle
+  0x05: 'sldImg',    // MasterNotesSlideImage
+  0x06: 'body',      // MasterNotesBody
+  0x07: 'dt',        // MasterDate
+  0x08: 'sldNum',    // MasterSlideNumber
+  0x09: 'ftr',       // MasterFooter
+  0x0A: 'hdr',       // MasterHeader
+  0x0B: 'sldImg',    // NotesSlideImage
+  0x0C: 'body',      // NotesBody
+  0x0D: 'title',     // Title
+  0x0E: 'body',      // Body
+  0x0F: 'ctrTitle',  // CenterTitle
+  0x10: 'subTitle',  // SubTitle
+  0x11: 'title',     // VerticalTitle
+  0x12: 'body',      // VerticalBody
+  0x13: 'obj',       // Object
+  0x14: 'chart',     // Graph
+  0x15: 'tbl',       // Table
+  0x16: 'clipArt',   // ClipArt
+  0x17: 'dgm',       // OrgChart
+  0x18: 'media',     // Media
+  0x19: 'obj',       // VerticalObject
+  0x1A: 'pic',       // Picture
+};
+
+// SlideLayoutType values mapped to ST_SlideLayoutType and a display name
+const SLIDE_LAYOUTS: Record<number, { type: string; name: string }> = {
+  0x00: { type: 'title', name: 'Title Slide' },
+  0x01: { type: 'obj', name: 'Title and Body' },
+  0x07: { type: 'titleOnly', name: 'Title Only' },
+  0x08: { type: 'twoObj', name: 'Two Columns' },
+  0x09: { type: 'objOverTx', name: 'Two Rows' },
+  0x0A: { type: 'objAndTwoObj', name: 'Column and Two Rows' },
+  0x0B: { type: 'twoObjAndObj', name: 'Two Rows and Column' },
+  0x0D: { type: 'twoObjOverTx', name: 'Two Columns and Row' },
+  0x0E: { type: 'fourObj', name: 'Four Objects' },
+  0x0F: { type: 'objOnly', name: 'Big Object' },
+  0x10: { type: 'blank', name: 'Blank' },
+  0x11: { type: 'vertTitleAndTx', name: 'Vertical Title and Body' },
+  0x12: { type: 'vertTitleAndTxOverChart', name: 'Vertical Title and Two Rows' },
+};
+
+/**
+ * Helper: Read a ColorIndexStruct (red, green, blue, index) as hex; only RGB colors
+ * (index 0xFE) are resolved, not color scheme indexes
+ */
+function readColorIndex(reader: BinaryReader): string | undefined {
+  const [red, green, blue, index] = reader.readBytes(4);
+  if (index !== 0xFE) return undefined;
+  return '#' + [red, green, blue].map(c => c.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+// SlideSizeEnum of DocumentAtom, as ST_SlideSizeType names
+const SLIDE_SIZE_TYPES = ['screen4x3', 'letter', 'A4', '35mm', 'overhead', 'banner', 'custom'];
+
+/**
+ * Read a DocumentAtom: slide and notes sizes (PointStruct in master units), serverZoom,
+ * notes and handout master references, first slide number, size type and flags
+ */
+function readDocumentAtom(reader: BinaryReader): PresentationProperties {
+  const slideWidth = reader.readInt32LE();
+  const slideHeight = reader.readInt32LE();
+  const notesWidth = reader.readInt32LE();
+  const notesHeight = reader.readInt32LE();
+  reader.skip(16); // serverZoom, notesMasterPersistIdRef, handoutMasterPersistIdRef
+  const firstSlideNumber = reader.readUInt16LE();
+  const sizeType = reader.readUInt16LE();
+  reader.skip(2); // fSaveWithFonts, fOmitTitlePlace
+  const rightToLeft = reader.readUInt8() !== 0;
+
+  return {
+    slideSize: {
+      width: Math.round(slideWidth * EMU_PER_MASTER_UNIT),
+      height: Math.round(slideHeight * EMU_PER_MASTER_UNIT),
+      type: SLIDE_SIZE_TYPES[sizeType] || 'custom',
+    },
+    notesSize: {
+      width: Math.round(notesWidth * EMU_PER_MASTER_UNIT),
+      height: Math.round(notesHeight * EMU_PER_MASTER_UNIT),
+    },
+    firstSlideNumber,
+    rightToLeft,
+  };
+}
+
+// SlideShowDocInfoAtom flags
+const SHOW_AUTO_ADVANCE = 0x0001;
+const SHOW_USE_SLIDE_RANGE = 0x0004;
+const SHOW_USE_NAMED_SHOW = 0x0008;
+const SHOW_BROWSE_MODE = 0x0010;
+const SHOW_KIOSK_MODE = 0x0020;
+const SHOW_SKIP_NARRATION = 0x0040;
+const SHOW_LOOP = 0x0080;
+
+/**
+ * Read a SlideShowDocInfoAtom: pen color, kiosk restart time, slide range,
+ * named show (32 UTF-16 characters) and flags
+ */
+function readSlideShowDocInfo(reader: BinaryReader): SlideShowSettings {
+  const penColor = readColorIndex(reader);
+  const restartTime = reader.readInt32LE();
+  const startSlide = reader.readInt16LE();
+  const endSlide = reader.readInt16LE();
+  const namedShow = reader.readUTF16LE(64);
+  const flags = reader.readUInt16LE();
+
+  const settings: SlideShowSettings = {
+    mode: flags & SHOW_KIOSK_MODE ? 'kiosk' : flags & SHOW_BROWSE_MODE ? 'browse' : 'presenter',
+    loop: (flags & SHOW_LOOP) !== 0,
+    useTimings: (flags & SHOW_AUTO_ADVANCE) !== 0,
+    showNarration: (flags & SHOW_SKIP_NARRATION) === 0,
+  };
+  if (flags & SHOW_KIOSK_MODE) settings.restartTime = restartTime;
+  if (penColor) settings.penColor = penColor;
+  if (flags & SHOW_USE_SLIDE_RANGE) settings.slideRange = { start: startSlide, end: endSlide };
+  if (flags & SHOW_USE_NAMED_SHOW && namedShow) settings.customShow = namedShow;
+
+  return settings;
+}
+
+/**
+ * Read a NamedShow container: its name (CString) and the ids of its slides
+ */
+function readNamedShow(
+  reader: BinaryReader,
+  recordEnd: number,
+  namedShows: { name: string; slideIds: number[] }[]
+): void {
+  const show = { name: '', slideIds: [] as number[] };
+  
+  while (reader.pos + 8 <= recordEnd) {
+    reader.skip(2);
+    const type = reader.readUInt16LE();
+    const len = reader.readUInt32LE();
+    const childEnd = reader.pos + len;
+    if (childEnd > recordEnd) break;
+    
+    if (type === RecordType.RT_CString) {
+      show.name = reader.readUTF16LE(len);
+    } else if (type === RecordType.RT_NamedShowSlidesAtom) {
+      for (let i = 0; i + 4 <= len; i += 4) {
+        show.slideIds.push(reader.readUInt32LE());
+      }
+    }
+    reader.seek(childEnd);
+  }
+  
+  namedShows.push(show);
+}
+
+/**
+ * Sort build steps by orderID and number them by click
+ */
+function orderAnimations(animations: { order: number; step: AnimationStep }[]): AnimationStep[] {
+  let click = 0;
+  return [...animations]
+    .sort((a, b) => a.order - b.order)
+    .map(({ step }) => {
+      if (step.trigger === 'onClick') click++;
+      return { ...step, click };
+    });
+}
+
+/**
+ * Helper: Embedded fonts of the font collection
+ */
+function createEmbeddedFonts(result: ParseResult): EmbeddedFontInfo[] {
+  return [...result.embeddedFonts]
+    .filter(([index]) => result.fonts[index])
+    .map(([index, styles]) => ({ typeface: result.fonts[index], styles }));
+}
+
+/**
+ * Helper: Slide-level reference to a movie or sound; null for other objects
+ */
+function createMediaUsage(
+  ref: { exObjId: number; shapeId?: number },
+  mediaObjects: MediaObjectEntry[]
+): MediaUsage | null {
+  const entry = mediaObjects.find(media => media.exObjId === ref.exObjId);
+  if (!entry) return null;
+  
+  const usage: MediaUsage = {
+    kind: entry.kind,
+    name: entry.name || entry.path?.split(/[\\/]/).pop() || `${entry.kind}${entry.exObjId}`,
+  };
+  if (entry.path) usage.target = entry.path;
+  if (entry.external) usage.external = true;
+  if (ref.shapeId !== undefined) usage.shapeId = ref.shapeId;
+  return usage;
+}
+
+/**
+ * Helper: Slide-level reference to an embedded object
+ */
+function createObjectRef(
+  ref: { exObjId: number; shapeId?: number },
+  oleObjects: OleObjectEntry[]
+): EmbeddedObjectRef {
+  const entry = oleObjects.find(object => object.exObjId === ref.exObjId);
+  const object: EmbeddedObjectRef = { objectId: ref.exObjId };
+  if (entry?.name) object.name = entry.name;
+  if (entry?.progId) object.progId = entry.progId;
+  if (ref.shapeId !== undefined) object.shapeId = ref.shapeId;
+  return object;
+}
+
+/**
+ * Read the storages of embedded objects
+ */
+async function createEmbeddings(result: ParseResult, slides: SlideContent[]): Promise<EmbeddedObjectInfo[]> {
+  const embeddings: EmbeddedObjectInfo[] = [];
+  
+  for (const entry of result.oleObjects) {
+    const data = await readPersistStorage(result, entry.persistIdRef);
+    if (!data) continue;
+    
+    embeddings.push(await createEmbeddedObject(data, {
+      name: `oleObject${entry.exObjId}.bin`,
+      progId: entry.progId,
+      slides: slides
+        .filter(slide => slide.objects?.some(object => object.objectId === entry.exObjId))
+        .map(slide => slide.slideNumber),
+    }));
+  }
+  
+  return embeddings;
+}
+
+/**
+ * Read the VBA project: the storage referenced by VBAInfoAtom, or a
+ * _VBA_PROJECT_CUR storage in the file itself
+ */
+async function createVbaProject(result: ParseResult, cfb: CFB.CFBContainer): Promise<VbaProjectInfo | undefined> {
+  if (result.vbaPersistId !== undefined) {
+    const data = await readPersistStorage(result, result.vbaPersistId);
+    const project = data && parseVbaProject(data, 'VBAInfo');
+    if (project) return project;
+  }
+  return readVbaProject(cfb, '_VBA_PROJECT_CUR', '_VBA_PROJECT_CUR/') || undefined;
+}
+
+/**
+ * Helper: Data of the ExOleObjStg record a persist id points to; compressed
+ * storages are zlib streams preceded by their decompressed size
+ */
+async function readPersistStorage(result: ParseResult, persistId: number): Promise<Uint8Array | null> {
+  const offset = result.persistOffsets.get(persistId);
+  const storage = offset !== undefined ? result.oleStorages.get(offset) : undefined;
+  if (!storage) return null;
+  if (!storage.compressed) return storage.data;
+  
+  try {
+    return await inflate(storage.data.subarray(4));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Helper: Decompress a zlib stream
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Map custom shows to slide numbers through the slide ids
+ */
+function createCustomShows(result: ParseResult, slides: SlideContent[]): CustomShowInfo[] {
+  const bySlideId = new Map<number, number>();
+  for (const slide of slides) {
+    if (slide.slideId !== undefined) bySlideId.set(slide.slideId, slide.slideNumber);
+  }
+  
+  return result.namedShows.map(show => ({
+    name: show.name,
+    slides: show.slideIds
+      .map(id => bySlideId.get(id))
+      .filter((slideNumber): slideNumber is number => slideNumber !== undefined),
+  }));
+}
+
+/**
+ * Build the master list; layouts are added as slides using them are created
+ */
+function createMasters(result: ParseResult): MasterInfo[] {
+  return result.masters.map((placeholders, i) => ({
+    name: `Master Slide ${i + 1}`,
+    placeholders,
+    layouts: [],
+  }));
+}
+
+/**
+ * Attach a slide to its layout and master.
+ * PPT has no layout objects: slides of the same master and SlideLayoutType share one LayoutInfo.
+ * MainMasters are assumed to appear in the stream in master list order.
+ */
+function assignLayout(slide: SlideContent, ref: SlideLayoutRef, masters: MasterInfo[], masterIds: number[]): void {
+  const known = SLIDE_LAYOUTS[ref.geom];
+  const name = known?.name || `Layout ${ref.geom}`;
+  slide.layout = name;
+  
+  const master = masters[masterIds.indexOf(ref.masterId)] ?? masters[0];
+  if (!master) return;
+  slide.master = master.name;
+  
+  let layout = master.layouts.find(l => l.name === name);
+  if (!layout) {
+    layout = { name, placeholders: ref.placeholders.map(type => ({ type })), slides: [] };
+    if (known) layout.type = known.type;
+    master.layouts.push(layout);
+  }
+  layout.slides.push(slide.slideNumber);
+}
+
+// InteractiveInfoAtom action values
+const II_MACRO_ACTION = 1;
+const II_RUN_PROGRAM_ACTION = 2;
+const II_JUMP_ACTION = 3;
+const II_HYPERLINK_ACTION = 4;
+const II_OLE_ACTION = 5;
+const II_MEDIA_ACTION = 6;
+const II_CUSTOM_SHOW_ACTION = 7;
+
+// InteractiveInfoAtom jump values
+const JUMP_ACTIONS: Record<number, LinkAction> = {
+  1: 'nextSlide',
+  2: 'previousSlide',
+  3: 'firstSlide',
+  4: 'lastSlide',
+  5: 'lastSlideViewed',
+  6: 'endShow',
+};
+
+// InteractiveInfoAtom hyperlinkType values for hyperlink actions
+const HYPERLINK_TYPE_ACTIONS: Record<number, LinkAction> = {
+  0x00: 'nextSlide',
+  0x01: 'previousSlide',
+  0x02: 'firstSlide',
+  0x03: 'lastSlide',
+  0x06: 'customShow',
+  0x07: 'slide',
+  0x08: 'url',
+  0x09: 'file',
+  0x0A: 'file',
+};
+
+/**
+ * Turn an InteractiveInfoAtom into a link, or null when it does nothing.
+ * Slide jumps take the slide number from the ExHyperlink location ("slideId,slideNumber,title").
+ */
+function resolveLink(pending: PendingLink, hyperlinks: Map<number, HyperlinkTarget>): LinkInfo | null {
+  const hyperlink = hyperlinks.get(pending.hyperlinkId);
+  let action: LinkAction | undefined;
+  
+  switch (pending.action) {
+    case II_MACRO_ACTION: action = 'macro'; break;
+    case II_RUN_PROGRAM_ACTION: action = 'program'; break;
+    case II_JUMP_ACTION: action = JUMP_ACTIONS[pending.jump]; break;
+    case II_HYPERLINK_ACTION: action = HYPERLINK_TYPE_ACTIONS[pending.hyperlinkType]; break;
+    case II_OLE_ACTION: action = 'ole'; break;
+    case II_MEDIA_ACTION: action = 'media'; break;
+    case II_CUSTOM_SHOW_ACTION: action = 'customShow'; break;
+  }
+  if (!action) return null;
+  
+  const link: LinkInfo = { text: pending.text, action };
+  if (action === 'slide') {
+    const slideNumber = parseInt(hyperlink?.location?.split(',')[1] || '', 10);
+    if (isNaN(slideNumber)) return null;
+    link.targetSlide = slideNumber;
+  } else if (hyperlink?.target && action !== 'ole' && action !== 'media') {
+    link.target = hyperlink.target;
+  }
+  if (pending.hover) link.hover = true;
+  if (pending.shapeId !== undefined) link.shapeId = pending.shapeId;
+  
+  return link;
+}
+
+/**
+ * Record the paragraphs of an accepted text atom as plain runs.
+ * A following StyleTextPropAtom fills in levels, bullets and formatting.
+ */
+function addTextParagraphs(result: ParseResult, cursor: ParseCursor, raw: string): PendingText {
+  const paragraphs: TextParagraph[] = [];
+  
+  for (const segment of raw.split('\r')) {
+    const text = cleanRunText(segment);
+    const paragraph: TextParagraph = { text: text.trim(), level: 0, runs: [{ text }] };
+    if (cursor.shape?.info.id !== undefined) {
+      paragraph.shapeId = cursor.shape.info.id;
+    }
+    paragraphs.push(paragraph);
+    
+    if (paragraph.text) {
+      if (!result.slideParagraphs.has(cursor.slide)) {
+        result.slideParagraphs.set(cursor.slide, []);
+      }
+      result.slideParagraphs.get(cursor.slide)!.push(paragraph);
+    }
+  }
+  
+  return { raw, paragraphs };
+}
+
+/**
+ * Apply StyleTextPropAtom paragraph and character runs to the pending text.
+ * Both run lists cover the text plus one trailing character.
+ */
+function applyTextStyles(reader: BinaryReader, recordEnd: number, pending: PendingText, fonts: string[]): void {
+  const { raw, paragraphs } = pending;
+  const total = raw.length + 1;
+  
+  // Start offset of each paragraph within raw
+  const starts: number[] = [];
+  let offset = 0;
+  for (const segment of raw.split('\r')) {
+    starts.push(offset);
+    offset += segment.length + 1;
+  }
+  
+  // Paragraph runs: count, indent level, TextPFException
+  let covered = 0;
+  while (covered < total && reader.pos + 10 <= recordEnd) {
+    const count = reader.readUInt32LE();
+    const indentLevel = reader.readUInt16LE();
+    const bullet = readTextPFException(reader);
+    if (count === 0) break;
+    
+    starts.forEach((start, i) => {
+      if (start >= covered && start < covered + count) {
+        paragraphs[i].level = indentLevel;
+        if (bullet) paragraphs[i].bullet = bullet;
+      }
+    });
+    covered += count;
+  }
+  
+  // Character runs: count, TextCFException
+  const charRuns: { start: number; end: number; style: Omit<TextRun, 'text'> }[] = [];
+  covered = 0;
+  while (covered < total && reader.pos + 8 <= recordEnd) {
+    const count = reader.readUInt32LE();
+    const style = readTextCFException(reader, fonts);
+    if (count === 0) break;
+    
+    charRuns.push({ start: covered, end: covered + count, style });
+    covered += count;
+  }
+  if (charRuns.length === 0) return;
+  
+  // Split each paragraph at character run boundaries
+  paragraphs.forEach((paragraph, i) => {
+    const start = starts[i];
+    const end = start + raw.split('\r')[i].length;
+    const runs: TextRun[] = [];
+    
+    for (const charRun of charRuns) {
+      const from = Math.max(start, charRun.start);
+      const to = Math.min(end, charRun.end);
+      if (from < to) {
+        runs.push({ text: cleanRunText(raw.substring(from, to)), ...charRun.style });
+      }
+    }
+    
+    if (runs.length > 0) {
+      paragraph.runs = runs;
+    }
+  });
+}
+
+// PFMasks bits that decide which TextPFException fields are present
+const PF_HAS_BULLET = 0x00000001;
+const PF_BULLET_FLAGS = 0x0000000F;
+const PF_BULLET_FONT = 0x00000010;
+const PF_BULLET_COLOR = 0x00000020;
+const PF_BULLET_SIZE = 0x00000040;
+const PF_BULLET_CHAR = 0x00000080;
+const PF_LEFT_MARGIN = 0x00000100;
+const PF_INDENT = 0x00000400;
+const PF_ALIGN = 0x00000800;
+const PF_LINE_SPACING = 0x00001000;
+const PF_SPACE_BEFORE = 0x00002000;
+const PF_SPACE_AFTER = 0x00004000;
+const PF_DEFAULT_TAB_SIZE = 0x00008000;
+const PF_FONT_ALIGN = 0x00010000;
+const PF_WRAP_FLAGS = 0x000E0000;
+const PF_TAB_STOPS = 0x00100000;
+const PF_TEXT_DIRECTION = 0x00200000;
+
+/**
+ * Read a TextPFException, returning the bullet it sets (if any)
+ */
+function readTextPFException(reader: BinaryReader): BulletInfo | undefined {
+  const masks = reader.readUInt32LE();
+  let bulletFlags = 0;
+  let bulletChar: string | undefined;
+  
+  if (masks & PF_BULLET_FLAGS) bulletFlags = reader.readUInt16LE();
+  if (masks & PF_BULLET_CHAR) bulletChar = String.fromCharCode(reader.readUInt16LE());
+  if (masks & PF_BULLET_FONT) reader.skip(2);
+  if (masks & PF_BULLET_SIZE) reader.skip(2);
+  if (masks & PF_BULLET_COLOR) reader.skip(4);
+  if (masks & PF_ALIGN) reader.skip(2);
+  if (masks & PF_LINE_SPACING) reader.skip(2);
+  if (masks & PF_SPACE_BEFORE) reader.skip(2);
+  if (masks & PF_SPACE_AFTER) reader.skip(2);
+  if (masks & PF_LEFT_MARGIN) reader.skip(2);
+  if (masks & PF_INDENT) reader.skip(2);
+  if (masks & PF_DEFAULT_TAB_SIZE) reader.skip(2);
+  if (masks & PF_TAB_STOPS) {
+    const count = reader.readUInt16LE();
+    reader.skip(count * 4);
+  }
+  if (masks & PF_FONT_ALIGN) reader.skip(2);
+  if (masks & PF_WRAP_FLAGS) reader.skip(2);
+  if (masks & PF_TEXT_DIRECTION) reader.skip(2);
+  
+  if (!(masks & PF_HAS_BULLET)) return undefined;
+  return bulletFlags & 0x0001 ? { type: 'char', char: bulletChar } : { type: 'none' };
+}
+
+// CFMasks bits that decide which TextCFException fields are present
+const CF_BOLD = 0x00000001;
+const CF_ITALIC = 0x00000002;
+const CF_UNDERLINE = 0x00000004;
+const CF_FONT_STYLE = 0x00003EB7;
+const CF_TYPEFACE = 0x00010000;
+const CF_SIZE = 0x00020000;
+const CF_COLOR = 0x00040000;
+const CF_POSITION = 0x00080000;
+const CF_PP10_EXT = 0x00100000;
+const CF_OLD_EA_TYPEFACE = 0x00200000;
+const CF_ANSI_TYPEFACE = 0x00400000;
+const CF_SYMBOL_TYPEFACE = 0x00800000;
+const CF_NEW_EA_TYPEFACE = 0x01000000;
+const CF_CS_TYPEFACE = 0x02000000;
+const CF_PP11_EXT = 0x04000000;
+
+/**
+ * Read a TextCFException into run formatting
+ */
+function readTextCFException(reader: BinaryReader, fonts: string[]): Omit<TextRun, 'text'> {
+  const masks = reader.readUInt32LE();
+  const style: Omit<TextRun, 'text'> = {};
+  
+  if (masks & CF_FONT_STYLE) {
+    const fontStyle = reader.readUInt16LE();
+    if (masks & CF_BOLD && fontStyle & 0x0001) style.bold = true;
+    if (masks & CF_ITALIC && fontStyle & 0x0002) style.italic = true;
+    if (masks & CF_UNDERLINE && fontStyle & 0x0004) style.underline = true;
+  }
+  if (masks & CF_TYPEFACE) {
+    const font = fonts[reader.readUInt16LE()];
+    if (font) style.font = font;
+  }
+  if (masks & CF_OLD_EA_TYPEFACE) reader.skip(2);
+  if (masks & CF_ANSI_TYPEFACE) reader.skip(2);
+  if (masks & CF_SYMBOL_TYPEFACE) reader.skip(2);
+  if (masks & CF_SIZE) style.size = reader.readUInt16LE();
+  if (masks & CF_COLOR) {
+    const color = readColorIndex(reader);
+    if (color) style.color = color;
+  }
+  if (masks & CF_POSITION) reader.skip(2);
+  if (masks & CF_PP10_EXT) reader.skip(4);
+  if (masks & CF_NEW_EA_TYPEFACE) reader.skip(2);
+  if (masks & CF_CS_TYPEFACE) reader.skip(2);
+  if (masks & CF_PP11_EXT) reader.skip(4);
+  
+  return style;
+}
+
+/**
+ * Clean the text of a single run, keeping inner spacing
+ */
+function cleanRunText(text: string): string {
+  let cleaned = '';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (code === 0x0B) {
+      cleaned += '\n'; // vertical tab is a soft line break
+    } else if (code >= 0x20 || code === 0x09 || code === 0x0A) {
+      cleaned += ch;
+    }
+  }
+  return cleaned;
+}
+
+/**
+ * Convert the collected anchor (master units) into position, size and transform.
+ * Position and size are mapped to the slide; the transform stays in the group's space.
+ */
+function finishShape(state: ShapeState, space: CoordinateSpace): void {
+  if (!state.anchor) return;
+  
+  const { left, top, right, bottom } = state.anchor;
+  state.info.position = {
+    x: (left * space.scaleX + space.offsetX) / 8,
+    y: (top * space.scaleY + space.offsetY) / 8,
+  };
+  state.info.size = {
+    width: ((right - left) * space.scaleX) / 8,
+    height: ((bottom - top) * space.scaleY) / 8,
+  };
+  state.info.transform = {
+    x: Math.round(left * EMU_PER_MASTER_UNIT),
+    y: Math.round(top * EMU_PER_MASTER_UNIT),
+    width: Math.round((right - left) * EMU_PER_MASTER_UNIT),
+    height: Math.round((bottom - top) * EMU_PER_MASTER_UNIT),
+    rotation: state.rotation,
+    flipH: state.flipH,
+    flipV: state.flipV,
+  };
+}
+
+/**
+ * Helper: OfficeArt rectangle (anchor or FSPGR) as offset and extent
+ */
+function toSpaceRect(rect: { left: number; top: number; right: number; bottom: number }): SpaceRect {
+  return { x: rect.left, y: rect.top, width: rect.right - rect.left, height: rect.bottom - rect.top };
+}
+
 /**
  * Clean text content
  */
@@ -550,7 +2116,7 @@ function isMasterSlideText(text: string): boolean {
 /**
  * Convert Uint8Array to base64
  */
-function arrayToBase64(arr: Uint8Array): string {
+export function arrayToBase64(arr: Uint8Array): string {
   let binary = '';
   const chunkSize = 8192;
   for (let i = 0; i < arr.length; i += chunkSize) {
@@ -634,7 +2200,9 @@ function parsePropertyStream(data: Uint8Array): Partial<PresentationMetadata> {
 /**
  * Create slides from extracted texts
  */
-function createSlides(texts: string[], slideTexts: Map<number, string[]>): SlideContent[] {
+function createSlides(result: ParseResult, masters: MasterInfo[]): SlideContent[] {
+  const { texts, slideTexts } = result;
+  
   // If we have slide-organized texts, use them
   if (slideTexts.size > 0) {
     const slides: SlideContent[] = [];
@@ -660,15 +2228,50 @@ function createSlides(texts: string[], slideTexts: Map<number, string[]>): Slide
         content = filteredTexts.slice(1);
       }
       
-      slides.push({
+      const slide: SlideContent = {
         slideNumber: slides.length + 1,
         title: title,
         textContent: content,
         notes: '',
-        shapes: [],
+        shapes: result.slideShapes.get(slideNum) || [],
         images: [],
         tables: [],
-      });
+        paragraphs: (result.slideParagraphs.get(slideNum) || []).filter(p => !isMasterSlideText(p.text)),
+        links: (result.slideLinks.get(slideNum) || [])
+          .map(link => resolveLink(link, result.hyperlinks))
+          .filter((link): link is LinkInfo => link !== null),
+        comments: result.slideComments.get(slideNum) || [],
+      };
+      
+      const layoutRef = result.slideLayouts.get(slideNum);
+      if (layoutRef) {
+        assignLayout(slide, layoutRef, masters, result.masterIds);
+      }
+      // Slide containers are assumed to appear in the same order as the slide list
+      if (result.slideIds[slideNum - 1] !== undefined) {
+        slide.slideId = result.slideIds[slideNum - 1];
+      }
+      if (result.hiddenSlides.has(slideNum)) {
+        slide.hidden = true;
+      }
+      const transition = result.slideTransitions.get(slideNum);
+      if (transition) {
+        slide.transition = transition;
+      }
+      const animations = result.slideAnimations.get(slideNum);
+      if (animations) {
+        slide.animations = orderAnimations(animations);
+      }
+      const objectRefs = result.slideObjects.get(slideNum) || [];
+      const mediaUsages = objectRefs.flatMap(ref => createMediaUsage(ref, result.mediaObjects) || []);
+      const oleRefs = objectRefs.filter(ref => !result.mediaObjects.some(media => media.exObjId === ref.exObjId));
+      if (mediaUsages.length > 0) {
+        slide.media = mediaUsages;
+      }
+      if (oleRefs.length > 0) {
+        slide.objects = oleRefs.map(ref => createObjectRef(ref, result.oleObjects));
+      }
+      slides.push(slide);
     }
     
     if (slides.length > 0) return slides;
@@ -747,11 +2350,100 @@ function createSlides(texts: string[], slideTexts: Map<number, string[]>): Slide
   return slides;
 }
 
+// CurrentUserAtom headerToken of an encrypted document
+const HEADER_TOKEN_ENCRYPTED = 0xF3D1C4DF;
+
+/**
+ * Decrypt an encrypted PowerPoint Document stream (RC4 CryptoAPI). Each persist
+ * object is encrypted on its own, keyed by its persist id; UserEditAtoms, the
+ * persist directories and the CryptSession10Container are left in the clear.
+ * Unencrypted streams are returned as they are.
+ */
+async function decryptDocumentStream(
+  cfb: CFB.CFBContainer,
+  data: Uint8Array,
+  password?: string
+): Promise<Uint8Array> {
+  const currentUser = CFB.find(cfb, 'Current User')?.content;
+  if (!currentUser || currentUser.length < 20) return data;
+  const userReader = new BinaryReader(currentUser instanceof Uint8Array ? currentUser : new Uint8Array(currentUser));
+  // Record header, size, headerToken, offsetToCurrentEdit
+  userReader.seek(12);
+  if (userReader.readUInt32LE() !== HEADER_TOKEN_ENCRYPTED) return data;
+  if (password === undefined) throw new PasswordRequiredError();
+  
+  // Follow the edits from the latest; newer persist directory entries win
+  const reader = new BinaryReader(data);
+  const persistOffsets = new Map<number, number>();
+  let sessionPersistId: number | undefined;
+  let editOffset = userReader.readUInt32LE();
+  const visited = new Set<number>();
+  
+  while (editOffset > 0 && editOffset + 8 <= data.length && !visited.has(editOffset)) {
+    visited.add(editOffset);
+    reader.seek(editOffset + 2);
+    if (reader.readUInt16LE() !== RecordType.RT_UserEditAtom) break;
+    const recLen = reader.readUInt32LE();
+    // lastSlideIdRef, version, minorVersion, majorVersion
+    reader.skip(8);
+    const offsetLastEdit = reader.readUInt32LE();
+    const offsetPersistDirectory = reader.readUInt32LE();
+    // docPersistIdRef, persistIdSeed, lastView, unused, then the optional encryptSessionPersistIdRef
+    reader.skip(12);
+    if (recLen >= 32 && sessionPersistId === undefined) sessionPersistId = reader.readUInt32LE();
+    
+    reader.seek(offsetPersistDirectory + 4);
+    const directoryEnd = offsetPersistDirectory + 8 + reader.readUInt32LE();
+    while (reader.pos + 4 <= Math.min(directoryEnd, data.length)) {
+      const entry = reader.readUInt32LE();
+      const persistId = entry & 0xFFFFF;
+      const count = entry >>> 20;
+      for (let i = 0; i < count && reader.pos + 4 <= directoryEnd; i++) {
+        const offset = reader.readUInt32LE();
+        if (!persistOffsets.has(persistId + i)) persistOffsets.set(persistId + i, offset);
+      }
+    }
+    editOffset = offsetLastEdit;
+  }
+  
+  const sessionOffset = sessionPersistId !== undefined ? persistOffsets.get(sessionPersistId) : undefined;
+  if (sessionOffset === undefined) throw new UnsupportedEncryptionError('Encryption info not found');
+  reader.seek(sessionOffset + 4);
+  const sessionLength = reader.readUInt32LE();
+  // The container's body is the EncryptionInfo
+  const createCipher = await createRc4CryptoApiCipher(
+    data.subarray(sessionOffset + 8, sessionOffset + 8 + sessionLength),
+    password
+  );
+  
+  const decrypted = data.slice();
+  for (const [persistId, offset] of persistOffsets) {
+    if (persistId === sessionPersistId || offset + 8 > data.length) continue;
+    // One key stream per object: the header first, which gives the length of the rest
+    const cipher = await createCipher(persistId);
+    const header = cipher(data.subarray(offset, offset + 8));
+    decrypted.set(header, offset);
+    const recLen = new DataView(header.buffer).getUint32(4, true);
+    const end = Math.min(offset + 8 + recLen, data.length);
+    decrypted.set(cipher(data.subarray(offset + 8, end)), offset + 8);
+  }
+  
+  return decrypted;
+}
+
+/**
+ * Helper: Binary variant from the file name; shows and templates share the .ppt format
+ */
+function getBinaryFileType(fileName: string): PresentationFileType {
+  const type = getFileType(fileName);
+  return type === 'pps' || type === 'pot' ? type : 'ppt';
+}
+
 // ============================================================================
 // MAIN EXPORT FUNCTION
 // ============================================================================
 
-export async function parsePPT(file: File): Promise<ExtractedPresentation> {
+export async function parsePPT(file: File, password?: string): Promise<ExtractedPresentation> {
   const buffer = await file.arrayBuffer();
   const data = new Uint8Array(buffer);
   
@@ -760,7 +2452,7 @@ export async function parsePPT(file: File): Promise<ExtractedPresentation> {
     const cfb = CFB.read(data, { type: 'array' });
     
     let metadata: PresentationMetadata = {
-      title: file.name.replace(/\.ppt$/i, ''),
+      title: file.name.replace(/\.(ppt|pps|pot)$/i, ''),
       subject: '',
       creator: '',
       lastModifiedBy: '',
@@ -783,7 +2475,7 @@ export async function parsePPT(file: File): Promise<ExtractedPresentation> {
     
     // Parse Summary Information for metadata
     try {
-      const summaryEntry = cfbFind(cfb, '\x05SummaryInformation');
+      const summaryEntry = CFB.find(cfb, '\x05SummaryInformation');
       if (summaryEntry?.content) {
         const content = summaryEntry.content;
         const summaryData = content instanceof Uint8Array ? content : new Uint8Array(content);
@@ -793,18 +2485,23 @@ export async function parsePPT(file: File): Promise<ExtractedPresentation> {
     } catch { /* ignore */ }
     
     // Find the PowerPoint Document stream
-    const pptEntry = cfbFind(cfb, 'PowerPoint Document');
+    const pptEntry = CFB.find(cfb, 'PowerPoint Document');
     if (!pptEntry?.content) {
       throw new Error('PowerPoint Document stream not found');
     }
     
     // Parse the PowerPoint stream
     const pptContent = pptEntry.content;
-    const pptData = pptContent instanceof Uint8Array ? pptContent : new Uint8Array(pptContent);
+    const pptData = await decryptDocumentStream(
+      cfb,
+      pptContent instanceof Uint8Array ? pptContent : new Uint8Array(pptContent),
+      password
+    );
     const parseResult = parsePPTStream(pptData);
     
     // Create slides from parsed data
-    const slides = createSlides(parseResult.texts, parseResult.slideTexts);
+    const masters = createMasters(parseResult);
+    const slides = createSlides(parseResult, masters);
     
     // Update metadata
     metadata.totalSlides = slides.length;
@@ -823,19 +2520,34 @@ export async function parsePPT(file: File): Promise<ExtractedPresentation> {
       id: crypto.randomUUID(),
       fileName: file.name,
       fileSize: file.size,
-      fileType: 'ppt',
+      fileType: getBinaryFileType(file.name),
       extractedAt: new Date().toISOString(),
       metadata,
       slides,
       media: parseResult.images,
       themes: [],
-      masterSlides: [],
+      masterSlides: masters.map(master => master.name),
       customProperties: {
         parsedWith: 'ppt-parser-v2',
       },
+      masters,
+      customShows: createCustomShows(parseResult, slides),
+      embeddings: await createEmbeddings(parseResult, slides),
+      fonts: createFontReport(slides, createEmbeddedFonts(parseResult), {
+        heading: parseResult.fonts[0],
+        body: parseResult.fonts[0],
+      }),
+      macros: await createVbaProject(parseResult, cfb),
+      properties: parseResult.properties && { ...parseResult.properties, show: parseResult.show },
     };
     
   } catch (error) {
+    // The caller asks for a password or explains the encryption, rather than getting an error slide
+    if (
+      error instanceof PasswordRequiredError ||
+      error instanceof InvalidPasswordError ||
+      error instanceof UnsupportedEncryptionError
+    ) throw error;
     console.error('PPT parsing error:', error);
     
     // Return error result
@@ -843,10 +2555,10 @@ export async function parsePPT(file: File): Promise<ExtractedPresentation> {
       id: crypto.randomUUID(),
       fileName: file.name,
       fileSize: file.size,
-      fileType: 'ppt',
+      fileType: getBinaryFileType(file.name),
       extractedAt: new Date().toISOString(),
       metadata: {
-        title: file.name.replace(/\.ppt$/i, ''),
+        title: file.name.replace(/\.(ppt|pps|pot)$/i, ''),
         subject: '',
         creator: '',
         lastModifiedBy: '',
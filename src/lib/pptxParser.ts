@@ -11,9 +11,63 @@ import type {
   PresentationMetadata, 
   MediaInfo, 
   ShapeInfo,
+  ShapeKind,
+  LinkInfo,
+  LinkAction,
+  ChartInfo,
+  ChartSeries,
+  DiagramInfo,
+  DiagramNode,
+  CommentInfo,
+  MasterInfo,
+  LayoutInfo,
+  PlaceholderInfo,
+  SectionInfo,
+  CustomShowInfo,
+  EmbeddedObjectInfo,
+  EmbeddedObjectRef,
+  TransitionInfo,
+  AnimationStep,
+  AnimationTrigger,
+  AnimationEffectClass,
+  ShapeTransform,
   TableInfo,
-  ThemeInfo 
+  TableCell,
+  MediaUsage,
+  ThemeFonts,
+  EmbeddedFontInfo,
+  EmbeddedFontStyle,
+  TextParagraph,
+  TextRun,
+  MathInfo,
+  BulletInfo,
+  ThemeInfo,
+  BackgroundInfo,
+  PresentationFileType,
+  VbaProjectInfo,
+  PresentationProperties,
+  PageSize,
+  SlideShowSettings
 } from '../types';
+import { createEmbeddedObject } from './embeddings';
+import { createFontReport } from './fontReport';
+import { parseVbaProject } from './vbaProject';
+import { decryptPackage } from './encryption';
+import { isCompoundFile } from './compoundFile';
+import { getFileType, isOpenXmlFile } from './fileTypes';
+import { resolveColor, readColorScheme, readColorMap, type ColorContext } from './colorResolver';
+import { ommlToLatex, ommlToMathML } from './omml';
+import { SLIDE_SPACE, composeGroupSpace, type CoordinateSpace } from './groupSpace';
+import {
+  parseXml,
+  elementName,
+  getElements,
+  getElement,
+  getChildElement,
+  findParentWithTag,
+  getAttribute,
+  getTextContent
+} from './xml';
 
 // Import pptx-parser - note this is a default export
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -33,16 +87,26 @@ async function loadPptxParser() {
 }
 
 /**
- * Parse a PPTX file and extract all data
+ * Parse a PPTX file and extract all data; encrypted files need their password
  */
-export async function parsePPTX(file: File): Promise<ExtractedPresentation> {
+export async function parsePPTX(file: File, password?: string): Promise<ExtractedPresentation> {
+  // Encrypted packages are compound files wrapping the encrypted zip
+  if (isCompoundFile(new Uint8Array(await file.slice(0, 8).arrayBuffer()))) {
+    const data = await decryptPackage(new Uint8Array(await file.arrayBuffer()), password);
+    file = new File([data.slice()], file.name, { lastModified: file.lastModified });
+  }
+  
   // Try to use pptx-parser first for enhanced parsing
   const parser = await loadPptxParser();
   
   if (parser) {
     try {
       const pptxData = await parser(file);
-      return parsePptxParserResult(file, pptxData);
+      // Current pptx-parser releases resolve to an object ({ pageSize, slides, masters, ... })
+      // rather than a slide array; only the slide array form is converted
+      if (Array.isArray(pptxData)) {
+        return parsePptxParserResult(file, pptxData);
+      }
     } catch (err) {
       console.warn('pptx-parser failed, falling back to custom parser:', err);
     }
@@ -114,7 +178,7 @@ function parsePptxParserResult(file: File, pptxData: any): ExtractedPresentation
     id: crypto.randomUUID(),
     fileName: file.name,
     fileSize: file.size,
-    fileType: 'pptx',
+    fileType: getFileTypeFromName(file.name),
     extractedAt: new Date().toISOString(),
     metadata: {
       title: '',
@@ -153,18 +217,33 @@ function parsePptxParserResult(file: File, pptxData: any): ExtractedPresentation
 async function parseWithCustomParser(file: File): Promise<ExtractedPresentation> {
   const zip = await JSZip.loadAsync(file);
   
+  const fileType = await detectPackageType(zip, file.name);
   const metadata = await extractMetadata(zip);
-  const slides = await extractSlides(zip);
   const media = await extractMedia(zip);
   const themes = await extractThemes(zip);
-  const masterSlides = await extractMasterSlides(zip);
+  const masters = await extractMasters(zip);
+  const themeStyles = await extractThemeStyles(zip, masters, themes, media);
+  const slides = await extractSlides(zip, media, masters, themeStyles);
+  const { sections, customShows } = await extractSectionsAndShows(zip, slides);
+  const properties = await extractPresentationProperties(zip, customShows);
+  const embeddings = await extractEmbeddings(zip, slides);
+  const embeddedFonts = await extractEmbeddedFonts(zip);
+  const macros = await extractVbaProject(zip);
   const customProperties = await extractCustomProperties(zip);
   
+  // Runs without a typeface use the theme fonts of the (first) master
+  const mainTheme = themes.find(theme => theme.name === masters[0]?.theme) || themes[0];
+  const fonts = createFontReport(slides, embeddedFonts, {
+    heading: mainTheme?.fonts.major,
+    body: mainTheme?.fonts.minor,
+    themeFonts: themes.flatMap(theme => Object.values(theme.fonts)),
+  });
+  
   return {
     id: crypto.randomUUID(),
     fileName: file.name,
     fileSize: file.size,
-    fileType: 'pptx',
+    fileType,
     extractedAt: new Date().toISOString(),
     metadata: {
       ...metadata,
@@ -173,14 +252,61 @@ async function parseWithCustomParser(file: File): Promise<ExtractedPresentation>
     slides,
     media,
     themes,
-    masterSlides,
+    masterSlides: masters.map(master => master.name),
     customProperties: {
       ...customProperties,
       parsedWith: 'custom-jszip',
     },
+    mediaUsage: buildMediaUsage(slides),
+    masters,
+    sections,
+    customShows,
+    embeddings,
+    fonts,
+    macros,
+    properties,
   };
 }
 
+// Content types of the main part (ppt/presentation.xml) of each variant
+const MAIN_CONTENT_TYPES: Record<string, PresentationFileType> = {
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml': 'pptx',
+  'application/vnd.ms-powerpoint.presentation.macroEnabled.main+xml': 'pptm',
+  'application/vnd.openxmlformats-officedocument.presentationml.template.main+xml': 'potx',
+  'application/vnd.ms-powerpoint.template.macroEnabled.main+xml': 'potm',
+  'application/vnd.openxmlformats-officedocument.presentationml.slideshow.main+xml': 'ppsx',
+  'application/vnd.ms-powerpoint.slideshow.macroEnabled.main+xml': 'ppsm',
+};
+
+/**
+ * Detect the package variant from [Content_Types].xml; a renamed file keeps its real type.
+ * Office themes have no presentation part, only a theme in theme/theme/.
+ */
+async function detectPackageType(zip: JSZip, fileName: string): Promise<PresentationFileType> {
+  const contentTypesXml = await zip.file('[Content_Types].xml')?.async('text');
+  if (contentTypesXml) {
+    const doc = parseXml(contentTypesXml);
+    const overrides = getElements(doc, 'ct:Override');
+
+    for (const override of overrides) {
+      const type = MAIN_CONTENT_TYPES[override.getAttribute('ContentType') || ''];
+      if (type) return type;
+    }
+    if (overrides.some(override => override.getAttribute('PartName')?.startsWith('/theme/theme/'))) {
+      return 'thmx';
+    }
+  }
+
+  return getFileTypeFromName(fileName);
+}
+
+/**
+ * Helper: Open XML variant from the file name, "pptx" when the name doesn't tell
+ */
+function getFileTypeFromName(fileName: string): PresentationFileType {
+  return isOpenXmlFile(fileName) ? getFileType(fileName)! : 'pptx';
+}
+
 /**
  * Extract metadata from docProps/core.xml and docProps/app.xml
  */
@@ -210,36 +336,34 @@ async function extractMetadata(zip: JSZip): Promise<PresentationMetadata> {
   // Parse core.xml (Dublin Core metadata)
   const coreXml = await zip.file('docProps/core.xml')?.async('text');
   if (coreXml) {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(coreXml, 'text/xml');
+    const doc = parseXml(coreXml);
     
-    metadata.title = getTextContent(doc, 'dc:title') || getTextContent(doc, 'title') || '';
-    metadata.subject = getTextContent(doc, 'dc:subject') || getTextContent(doc, 'subject') || '';
-    metadata.creator = getTextContent(doc, 'dc:creator') || getTextContent(doc, 'creator') || '';
-    metadata.lastModifiedBy = getTextContent(doc, 'cp:lastModifiedBy') || getTextContent(doc, 'lastModifiedBy') || '';
-    metadata.created = getTextContent(doc, 'dcterms:created') || getTextContent(doc, 'created') || '';
-    metadata.modified = getTextContent(doc, 'dcterms:modified') || getTextContent(doc, 'modified') || '';
-    metadata.revision = getTextContent(doc, 'cp:revision') || getTextContent(doc, 'revision') || '';
-    metadata.category = getTextContent(doc, 'cp:category') || getTextContent(doc, 'category') || '';
-    metadata.keywords = getTextContent(doc, 'cp:keywords') || getTextContent(doc, 'keywords') || '';
-    metadata.description = getTextContent(doc, 'dc:description') || getTextContent(doc, 'description') || '';
+    metadata.title = getTextContent(doc, 'dc:title');
+    metadata.subject = getTextContent(doc, 'dc:subject');
+    metadata.creator = getTextContent(doc, 'dc:creator');
+    metadata.lastModifiedBy = getTextContent(doc, 'cp:lastModifiedBy');
+    metadata.created = getTextContent(doc, 'dcterms:created');
+    metadata.modified = getTextContent(doc, 'dcterms:modified');
+    metadata.revision = getTextContent(doc, 'cp:revision');
+    metadata.category = getTextContent(doc, 'cp:category');
+    metadata.keywords = getTextContent(doc, 'cp:keywords');
+    metadata.description = getTextContent(doc, 'dc:description');
   }
 
   // Parse app.xml (Application metadata)
   const appXml = await zip.file('docProps/app.xml')?.async('text');
   if (appXml) {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(appXml, 'text/xml');
+    const doc = parseXml(appXml);
     
-    metadata.application = getTextContent(doc, 'Application') || '';
-    metadata.appVersion = getTextContent(doc, 'AppVersion') || '';
-    metadata.company = getTextContent(doc, 'Company') || '';
-    metadata.manager = getTextContent(doc, 'Manager') || '';
-    metadata.totalSlides = parseInt(getTextContent(doc, 'Slides') || '0', 10);
-    metadata.totalWords = parseInt(getTextContent(doc, 'Words') || '0', 10);
-    metadata.totalParagraphs = parseInt(getTextContent(doc, 'Paragraphs') || '0', 10);
-    metadata.presentationFormat = getTextContent(doc, 'PresentationFormat') || '';
-    metadata.template = getTextContent(doc, 'Template') || '';
+    metadata.application = getTextContent(doc, 'ep:Application');
+    metadata.appVersion = getTextContent(doc, 'ep:AppVersion');
+    metadata.company = getTextContent(doc, 'ep:Company');
+    metadata.manager = getTextContent(doc, 'ep:Manager');
+    metadata.totalSlides = parseInt(getTextContent(doc, 'ep:Slides') || '0', 10);
+    metadata.totalWords = parseInt(getTextContent(doc, 'ep:Words') || '0', 10);
+    metadata.totalParagraphs = parseInt(getTextContent(doc, 'ep:Paragraphs') || '0', 10);
+    metadata.presentationFormat = getTextContent(doc, 'ep:PresentationFormat');
+    metadata.template = getTextContent(doc, 'ep:Template');
   }
 
   return metadata;
@@ -248,34 +372,59 @@ async function extractMetadata(zip: JSZip): Promise<PresentationMetadata> {
 /**
  * Extract slide content from ppt/slides/
  */
-async function extractSlides(zip: JSZip): Promise<SlideContent[]> {
+async function extractSlides(
+  zip: JSZip,
+  media: MediaInfo[],
+  masters: MasterInfo[],
+  themeStyles: Map<string, ThemeStyle>
+): Promise<SlideContent[]> {
   const slides: SlideContent[] = [];
-  const slideFiles: { path: string; num: number }[] = [];
-
-  // Find all slide files
-  zip.forEach((path) => {
-    const match = path.match(/ppt\/slides\/slide(\d+)\.xml$/);
-    if (match) {
-      slideFiles.push({ path, num: parseInt(match[1], 10) });
+  const slideFiles = await resolveSlideOrder(zip);
+  const mediaByPath = new Map(media.map(m => [m.path || m.name, m]));
+  const slideNumbers = new Map(slideFiles.map((file, i) => [file.path, i + 1]));
+  const commentAuthors = await extractCommentAuthors(zip);
+  const layoutsByPath = new Map<string, { layout: LayoutInfo; master: MasterInfo }>();
+  for (const master of masters) {
+    for (const layout of master.layouts) {
+      if (layout.partPath) layoutsByPath.set(layout.partPath, { layout, master });
     }
-  });
-
-  // Sort by slide number
-  slideFiles.sort((a, b) => a.num - b.num);
+  }
 
-  // Parse each slide
-  for (const slideFile of slideFiles) {
+  // Parse each slide in presentation order
+  for (let i = 0; i < slideFiles.length; i++) {
+    const slideFile = slideFiles[i];
     const slideXml = await zip.file(slideFile.path)?.async('text');
     if (slideXml) {
-      const slide = parseSlideXml(slideXml, slideFile.num);
+      const rels = await readRelationships(zip, slideFile.path);
+      const charts = await extractCharts(zip, rels);
+      const diagrams = await extractDiagrams(zip, rels);
+      const layoutRel = findRelationshipByType(rels, 'slideLayout');
+      const style = layoutRel ? themeStyles.get(layoutRel.target) : undefined;
+      const owner = layoutRel ? layoutsByPath.get(layoutRel.target) : undefined;
+      const slide = parseSlideXml(slideXml, i + 1, {
+        rels, mediaByPath, slideNumbers, charts, diagrams, style, placeholders: owner?.layout.placeholders,
+      });
+      slide.partPath = slideFile.path;
+      if (slideFile.slideId !== undefined) {
+        slide.slideId = slideFile.slideId;
+      }
       
-      // Try to get notes for this slide
-      const notesPath = `ppt/notesSlides/notesSlide${slideFile.num}.xml`;
-      const notesXml = await zip.file(notesPath)?.async('text');
+      // Notes are linked from the slide through its relationships
+      const notesRel = findRelationshipByType(rels, 'notesSlide');
+      const notesXml = notesRel ? await zip.file(notesRel.target)?.async('text') : undefined;
       if (notesXml) {
         slide.notes = parseNotesXml(notesXml);
       }
       
+      slide.comments = await extractComments(zip, rels, commentAuthors);
+      
+      // Record which layout (and through it, which master) the slide is based on
+      if (owner) {
+        slide.layout = owner.layout.name;
+        slide.master = owner.master.name;
+        owner.layout.slides.push(slide.slideNumber);
+      }
+      
       slides.push(slide);
     }
   }
@@ -283,12 +432,79 @@ async function extractSlides(zip: JSZip): Promise<SlideContent[]> {
   return slides;
 }
 
+/**
+ * Resolve slide parts in presentation order.
+ * The order comes from p:sldIdLst in ppt/presentation.xml, resolved through
+ * ppt/_rels/presentation.xml.rels. File names (slideN.xml) say nothing about
+ * the order once slides have been moved, inserted or deleted, so they are only
+ * used as a fallback when presentation.xml is missing or unusable.
+ */
+async function resolveSlideOrder(zip: JSZip): Promise<{ path: string; slideId?: number }[]> {
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('text');
+  if (presentationXml) {
+    const doc = parseXml(presentationXml);
+    const rels = await readRelationships(zip, 'ppt/presentation.xml');
+    const ordered: { path: string; slideId?: number }[] = [];
+
+    const sldIds = getElements(doc, 'p:sldId');
+    for (let i = 0; i < sldIds.length; i++) {
+      const rel = rels.get(getAttribute(sldIds[i], 'r:id') || '');
+      if (rel && !rel.external && zip.file(rel.target)) {
+        const id = parseInt(sldIds[i].getAttribute('id') || '', 10);
+        ordered.push({ path: rel.target, slideId: isNaN(id) ? undefined : id });
+      }
+    }
+
+    if (ordered.length > 0) return ordered;
+  }
+
+  // Fallback: sort by the number in the file name
+  const slideFiles: { path: string; num: number }[] = [];
+  zip.forEach((path) => {
+    const match = path.match(/ppt\/slides\/slide(\d+)\.xml$/);
+    if (match) {
+      slideFiles.push({ path, num: parseInt(match[1], 10) });
+    }
+  });
+  slideFiles.sort((a, b) => a.num - b.num);
+
+  return slideFiles.map(({ path }) => ({ path }));
+}
+
+/**
+ * Package data a slide needs to resolve its r:id references
+ */
+interface SlideContext {
+  rels: Map<string, Relationship>;
+  mediaByPath: Map<string, MediaInfo>;
+  /** Slide number of each slide part, for resolving slide jumps */
+  slideNumbers: Map<string, number>;
+  /** Charts referenced by the slide, keyed by chart part path */
+  charts: Map<string, ChartInfo>;
+  /** SmartArt referenced by the slide, keyed by diagram data part path */
+  diagrams: Map<string, DiagramInfo>;
+  /** Colors, fonts and background inherited from the slide's layout */
+  style?: ThemeStyle;
+  /** Placeholders of the slide's layout, for slide placeholders that only give an idx */
+  placeholders?: PlaceholderInfo[];
+}
+
+/**
+ * Colors, fonts and background of a layout, inherited from its master and theme
+ */
+interface ThemeStyle {
+  colors: ColorContext;
+  fonts: ThemeFonts;
+  /** Background fills of the theme (a:bgFillStyleLst), referenced by p:bgRef idx 1001 and up */
+  backgroundFills: Element[];
+  background?: BackgroundInfo;
+}
+
 /**
  * Parse individual slide XML
  */
-function parseSlideXml(xml: string, slideNumber: number): SlideContent {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(xml, 'text/xml');
+function parseSlideXml(xml: string, slideNumber: number, context: SlideContext): SlideContent {
+  const doc = parseXml(xml);
   
   const textContent: string[] = [];
   const shapes: ShapeInfo[] = [];
@@ -296,23 +512,39 @@ function parseSlideXml(xml: string, slideNumber: number): SlideContent {
   const tables: TableInfo[] = [];
   let title = '';
 
-  // Extract all text from a:t elements
-  const textElements = doc.getElementsByTagName('a:t');
-  for (let i = 0; i < textElements.length; i++) {
-    const text = textElements[i].textContent?.trim();
-    if (text) {
-      textContent.push(text);
+  // Colors follow the layout's color map unless the slide overrides it
+  const colors = context.style ? readPartColors(doc, context.style.colors) : undefined;
+
+  // Extract paragraphs (a:p elements); the flat text list has one entry per paragraph
+  const paragraphs = parseParagraphs(doc, colors);
+  resolveThemeFonts(paragraphs, context.style?.fonts || {});
+
+  // Extract SmartArt (dgm:relIds in a graphic frame); its text follows the slide's own paragraphs
+  const diagrams: DiagramInfo[] = [];
+  const relIdElements = getElements(doc, 'dgm:relIds');
+  for (let i = 0; i < relIdElements.length; i++) {
+    if (findParentWithTag(relIdElements[i], 'mc:Fallback')) continue;
+    const rel = context.rels.get(getAttribute(relIdElements[i], 'r:dm') || '');
+    const diagram = rel ? context.diagrams.get(rel.target) : undefined;
+    if (diagram) {
+      const shapeId = findShapeId(relIdElements[i]);
+      diagrams.push(shapeId !== undefined ? { ...diagram, shapeId } : { ...diagram });
+      flattenDiagramNodes(diagram.nodes, 0, shapeId, paragraphs);
     }
   }
 
+  for (const paragraph of paragraphs) {
+    textContent.push(paragraph.text);
+  }
+
   // Try to identify title (usually in p:ph with type="title" or "ctrTitle")
-  const phElements = doc.getElementsByTagName('p:ph');
+  const phElements = getElements(doc, 'p:ph');
   for (let i = 0; i < phElements.length; i++) {
     const type = phElements[i].getAttribute('type');
     if (type === 'title' || type === 'ctrTitle') {
       const parent = findParentWithTag(phElements[i], 'p:sp');
       if (parent) {
-        const titleTexts = parent.getElementsByTagName('a:t');
+        const titleTexts = getElements(parent, 'a:t');
         const titleParts: string[] = [];
         for (let j = 0; j < titleTexts.length; j++) {
           const t = titleTexts[j].textContent?.trim();
@@ -323,90 +555,68 @@ function parseSlideXml(xml: string, slideNumber: number): SlideContent {
     }
   }
 
-  // If no title found, use first text content
-  if (!title && textContent.length > 0) {
-    title = textContent[0];
-  }
+  // Extract the shape tree; the flat shape list holds every non-group shape in document order
+  const spTree = getElement(doc, 'p:spTree');
+  const shapeTree = spTree ? parseShapeTree(spTree, SLIDE_SPACE, colors, context.placeholders) : [];
+  collectLeafShapes(shapeTree, shapes);
 
-  // Extract shapes (p:sp elements)
-  const spElements = doc.getElementsByTagName('p:sp');
-  for (let i = 0; i < spElements.length; i++) {
-    const sp = spElements[i];
-    const shapeText: string[] = [];
-    const textEls = sp.getElementsByTagName('a:t');
-    for (let j = 0; j < textEls.length; j++) {
-      const t = textEls[j].textContent?.trim();
-      if (t) shapeText.push(t);
-    }
-    
-    // Get shape type from nvSpPr if available
-    const nvSpPr = sp.getElementsByTagName('p:nvSpPr')[0];
-    let shapeType = 'Shape';
-    if (nvSpPr) {
-      const nvPr = nvSpPr.getElementsByTagName('p:nvPr')[0];
-      if (nvPr) {
-        const ph = nvPr.getElementsByTagName('p:ph')[0];
-        if (ph) {
-          shapeType = ph.getAttribute('type') || 'Shape';
-        }
-      }
-    }
+  // Tag paragraphs with the placeholder role of their shape
+  const roles = new Map(shapes.filter(shape => shape.placeholder).map(shape => [shape.id, shape.placeholder]));
+  for (const paragraph of paragraphs) {
+    const role = paragraph.shapeId !== undefined ? roles.get(paragraph.shapeId) : undefined;
+    if (role) paragraph.placeholder = role;
+  }
 
-    shapes.push({
-      type: shapeType,
-      text: shapeText.join(' '),
-    });
+  // If no title found, use the first text that isn't a footer, date or slide number
+  if (!title) {
+    title = paragraphs.find(paragraph => paragraph.text && !FOOTER_PLACEHOLDERS.has(paragraph.placeholder || ''))?.text || '';
   }
 
   // Extract tables (a:tbl elements)
-  const tblElements = doc.getElementsByTagName('a:tbl');
+  const tblElements = getElements(doc, 'a:tbl');
   for (let i = 0; i < tblElements.length; i++) {
-    const tbl = tblElements[i];
-    const rows = tbl.getElementsByTagName('a:tr');
-    const tableData: string[][] = [];
-    
-    for (let r = 0; r < rows.length; r++) {
-      const cells = rows[r].getElementsByTagName('a:tc');
-      const rowData: string[] = [];
-      for (let c = 0; c < cells.length; c++) {
-        const cellTexts = cells[c].getElementsByTagName('a:t');
-        const cellContent: string[] = [];
-        for (let t = 0; t < cellTexts.length; t++) {
-          const text = cellTexts[t].textContent?.trim();
-          if (text) cellContent.push(text);
-        }
-        rowData.push(cellContent.join(' '));
+    const table = parseTable(tblElements[i], colors);
+    if (table) tables.push(table);
+  }
+
+  // Extract images (p:pic elements), resolved through the slide relationships
+  const picElements = getElements(doc, 'p:pic');
+  for (let i = 0; i < picElements.length; i++) {
+    const blipElements = getElements(picElements[i], 'a:blip');
+    for (let j = 0; j < blipElements.length; j++) {
+      const rel = context.rels.get(getAttribute(blipElements[j], 'r:embed') || '');
+      if (rel && !rel.external) {
+        images.push(resolveMediaReference(rel.target, context.mediaByPath));
       }
-      tableData.push(rowData);
     }
+  }
 
-    if (tableData.length > 0) {
-      tables.push({
-        rows: tableData.length,
-        columns: tableData[0]?.length || 0,
-        cells: tableData,
-      });
+  // Extract charts (c:chart in a graphic frame), resolved through the slide relationships
+  const charts: ChartInfo[] = [];
+  const chartElements = getElements(doc, 'c:chart');
+  for (let i = 0; i < chartElements.length; i++) {
+    if (findParentWithTag(chartElements[i], 'mc:Fallback')) continue;
+    const rel = context.rels.get(getAttribute(chartElements[i], 'r:id') || '');
+    const chart = rel ? context.charts.get(rel.target) : undefined;
+    if (chart) {
+      const shapeId = findShapeId(chartElements[i]);
+      charts.push(shapeId !== undefined ? { ...chart, shapeId } : { ...chart });
+
+      // The frame itself has no text; label it with the chart title
+      const frame = shapes.find(shape => shape.id === shapeId && shape.type === 'Chart' && !shape.text);
+      if (frame) frame.text = chart.title;
     }
   }
 
-  // Extract image references (p:pic elements)
-  const picElements = doc.getElementsByTagName('p:pic');
-  for (let i = 0; i < picElements.length; i++) {
-    const blipElements = picElements[i].getElementsByTagName('a:blip');
-    for (let j = 0; j < blipElements.length; j++) {
-      const embed = blipElements[j].getAttribute('r:embed');
-      if (embed) {
-        images.push({
-          name: `Image reference: ${embed}`,
-          type: 'image',
-          size: 0,
-          extension: '',
-        });
-      }
+  // Label SmartArt frames with the diagram text as well
+  for (const { shapeId } of diagrams) {
+    const frame = shapes.find(shape => shape.id === shapeId && shape.type === 'Diagram' && !shape.text);
+    if (frame && shapeId !== undefined) {
+      frame.text = paragraphs.filter(p => p.shapeId === shapeId).map(p => p.text).join(' ');
     }
   }
 
-  return {
+  const slide: SlideContent = {
     slideNumber,
     title,
     textContent,
@@ -414,196 +624,2128 @@ function parseSlideXml(xml: string, slideNumber: number): SlideContent {
     shapes,
     images,
     tables,
+    paragraphs,
+    shapeTree,
+    links: parseLinks(doc, context),
+    charts,
+    diagrams,
+    objects: parseOleObjects(doc, context),
   };
+
+  const mediaUsages = parseMediaUsages(doc, context);
+  if (mediaUsages.length > 0) slide.media = mediaUsages;
+
+  // show="0" on p:sld hides the slide from the slide show
+  const show = doc.documentElement.getAttribute('show');
+  if (show !== null && !isTrue(show)) {
+    slide.hidden = true;
+  }
+
+  const background = context.style && colors
+    ? readBackground(doc, { ...context.style, colors }, context.rels, context.mediaByPath, 'slide') || context.style.background
+    : undefined;
+  if (background) slide.background = background;
+
+  const transition = parseTransition(doc);
+  if (transition) slide.transition = transition;
+  const animations = parseAnimations(doc);
+  if (animations.length > 0) slide.animations = animations;
+
+  return slide;
 }
 
 /**
- * Parse notes XML
+ * Parse every non-empty a:p below an element, in document order
  */
-function parseNotesXml(xml: string): string {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(xml, 'text/xml');
-  
-  const notes: string[] = [];
-  const textElements = doc.getElementsByTagName('a:t');
-  for (let i = 0; i < textElements.length; i++) {
-    const text = textElements[i].textContent?.trim();
-    if (text) {
-      notes.push(text);
+function parseParagraphs(root: Document | Element, colors?: ColorContext): TextParagraph[] {
+  const paragraphs: TextParagraph[] = [];
+  const pElements = getElements(root, 'a:p');
+
+  for (let i = 0; i < pElements.length; i++) {
+    // Fallback content duplicates its mc:Choice sibling
+    if (findParentWithTag(pElements[i], 'mc:Fallback')) continue;
+
+    const paragraph = parseParagraph(pElements[i], colors);
+    if (paragraph.text) {
+      paragraphs.push(paragraph);
     }
   }
-  
-  // Filter out slide number placeholders
-  return notes.filter(n => !/^\d+$/.test(n)).join('\n');
+
+  return paragraphs;
 }
 
 /**
- * Extract media files from ppt/media/
+ * Parse a paragraph into runs with their character formatting
  */
-async function extractMedia(zip: JSZip): Promise<MediaInfo[]> {
-  const media: MediaInfo[] = [];
-  
-  const mediaFolder = zip.folder('ppt/media');
-  if (mediaFolder) {
-    const files: { name: string; file: JSZip.JSZipObject }[] = [];
-    
-    mediaFolder.forEach((relativePath, file) => {
-      if (!file.dir) {
-        files.push({ name: relativePath, file });
-      }
-    });
+function parseParagraph(p: Element, colors?: ColorContext): TextParagraph {
+  const pPr = getChildElement(p, 'a:pPr');
+  const runs: TextRun[] = [];
 
-    for (const { name, file } of files) {
-      const extension = name.split('.').pop()?.toLowerCase() || '';
-      const data = await file.async('base64');
-      const size = (await file.async('uint8array')).length;
-      
-      let type = 'unknown';
-      if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'tiff', 'webp'].includes(extension)) {
-        type = 'image';
-      } else if (['mp4', 'avi', 'mov', 'wmv', 'webm'].includes(extension)) {
-        type = 'video';
-      } else if (['mp3', 'wav', 'ogg', 'wma', 'm4a'].includes(extension)) {
-        type = 'audio';
-      }
-      
-      media.push({
-        name,
-        type,
-        size,
-        data,
-        extension,
-      });
+  for (let child = p.firstElementChild; child; child = child.nextElementSibling) {
+    if (elementName(child) === 'a:r' || elementName(child) === 'a:fld') {
+      runs.push(parseRun(child, colors));
+    } else if (elementName(child) === 'a:br') {
+      runs.push({ text: '\n' });
+    } else if (elementName(child) === 'a14:m') {
+      runs.push(...parseMathZone(child));
     }
   }
-  
-  return media;
+
+  const paragraph: TextParagraph = {
+    text: runs.map(r => r.text).join('').trim(),
+    level: parseInt(pPr?.getAttribute('lvl') || '0', 10),
+    runs,
+  };
+
+  const bullet = readBullet(pPr);
+  if (bullet) {
+    paragraph.bullet = bullet;
+  }
+
+  const shapeId = findShapeId(p);
+  if (shapeId !== undefined) {
+    paragraph.shapeId = shapeId;
+  }
+
+  return paragraph;
 }
 
 /**
- * Extract theme information
+ * Parse a text run (a:r) or text field (a:fld)
  */
-async function extractThemes(zip: JSZip): Promise<ThemeInfo[]> {
-  const themes: ThemeInfo[] = [];
-  const themeFiles: string[] = [];
-  
-  zip.forEach((path) => {
-    if (path.match(/ppt\/theme\/theme\d+\.xml$/)) {
-      themeFiles.push(path);
-    }
-  });
+function parseRun(r: Element, colors?: ColorContext): TextRun {
+  const run: TextRun = { text: getChildElement(r, 'a:t')?.textContent || '' };
+  const rPr = getChildElement(r, 'a:rPr');
+  if (!rPr) return run;
 
-  for (const themePath of themeFiles) {
-    const themeXml = await zip.file(themePath)?.async('text');
-    if (themeXml) {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(themeXml, 'text/xml');
-      
-      const name = doc.getElementsByTagName('a:theme')[0]?.getAttribute('name') || 'Theme';
-      const colors: string[] = [];
-      const fonts: string[] = [];
-      
-      // Extract color scheme
-      const clrScheme = doc.getElementsByTagName('a:clrScheme')[0];
-      if (clrScheme) {
-        const colorElements = clrScheme.children;
-        for (let i = 0; i < colorElements.length; i++) {
-          const colorName = colorElements[i].tagName.replace('a:', '');
-          const srgbClr = colorElements[i].getElementsByTagName('a:srgbClr')[0];
-          const sysClr = colorElements[i].getElementsByTagName('a:sysClr')[0];
-          
-          if (srgbClr) {
-            colors.push(`${colorName}: #${srgbClr.getAttribute('val')}`);
-          } else if (sysClr) {
-            colors.push(`${colorName}: ${sysClr.getAttribute('lastClr') || sysClr.getAttribute('val')}`);
-          }
-        }
-      }
-      
-      // Extract font scheme
-      const fontScheme = doc.getElementsByTagName('a:fontScheme')[0];
-      if (fontScheme) {
-        const majorFont = fontScheme.getElementsByTagName('a:majorFont')[0];
-        const minorFont = fontScheme.getElementsByTagName('a:minorFont')[0];
-        
-        if (majorFont) {
-          const latin = majorFont.getElementsByTagName('a:latin')[0];
-          if (latin) fonts.push(`Major: ${latin.getAttribute('typeface')}`);
-        }
-        if (minorFont) {
-          const latin = minorFont.getElementsByTagName('a:latin')[0];
-          if (latin) fonts.push(`Minor: ${latin.getAttribute('typeface')}`);
-        }
+  if (isTrue(rPr.getAttribute('b'))) run.bold = true;
+  if (isTrue(rPr.getAttribute('i'))) run.italic = true;
+
+  const underline = rPr.getAttribute('u');
+  if (underline && underline !== 'none') run.underline = true;
+
+  const font = getChildElement(rPr, 'a:latin')?.getAttribute('typeface');
+  if (font) run.font = font;
+  const eastAsianFont = getChildElement(rPr, 'a:ea')?.getAttribute('typeface');
+  if (eastAsianFont) run.eastAsianFont = eastAsianFont;
+  const complexScriptFont = getChildElement(rPr, 'a:cs')?.getAttribute('typeface');
+  if (complexScriptFont) run.complexScriptFont = complexScriptFont;
+
+  // sz is in hundredths of a point
+  const size = rPr.getAttribute('sz');
+  if (size) run.size = parseInt(size, 10) / 100;
+
+  const color = resolveColor(getChildElement(rPr, 'a:solidFill'), colors);
+  if (color) run.color = color;
+
+  const lang = rPr.getAttribute('lang');
+  if (lang) run.lang = lang;
+
+  return run;
+}
+
+/**
+ * Parse a math zone (a14:m) into one run per equation; m:oMathPara holds display equations
+ */
+function parseMathZone(zone: Element): TextRun[] {
+  const runs: TextRun[] = [];
+  const mathRun = (oMath: Element, display: boolean): TextRun => {
+    const math: MathInfo = { latex: ommlToLatex(oMath), mathml: ommlToMathML(oMath, display) };
+    if (display) math.display = true;
+    return { text: display ? `$$${math.latex}$$` : `$${math.latex}$`, math };
+  };
+
+  for (let child = zone.firstElementChild; child; child = child.nextElementSibling) {
+    if (elementName(child) === 'm:oMathPara') {
+      for (let oMath = child.firstElementChild; oMath; oMath = oMath.nextElementSibling) {
+        if (elementName(oMath) !== 'm:oMath') continue;
+        // Each equation of the group is on its own line
+        if (runs.length > 0) runs.push({ text: '\n' });
+        runs.push(mathRun(oMath, true));
       }
-      
-      themes.push({ name, colors, fonts });
+    } else if (elementName(child) === 'm:oMath') {
+      runs.push(mathRun(child, false));
     }
   }
-  
-  return themes;
+
+  return runs;
 }
 
+// Theme font references in run typefaces, e.g. "+mj-lt" for the Latin heading font
+const THEME_FONT_REFERENCES: Record<string, keyof ThemeFonts> = {
+  '+mj-lt': 'major',
+  '+mn-lt': 'minor',
+  '+mj-ea': 'majorEastAsian',
+  '+mn-ea': 'minorEastAsian',
+  '+mj-cs': 'majorComplexScript',
+  '+mn-cs': 'minorComplexScript',
+};
+
 /**
- * Extract master slide names
+ * Replace theme font references in run typefaces with the theme's typefaces;
+ * references the theme doesn't fill are dropped
  */
-async function extractMasterSlides(zip: JSZip): Promise<string[]> {
-  const masters: string[] = [];
-  
-  zip.forEach((path) => {
-    const match = path.match(/ppt\/slideMasters\/slideMaster(\d+)\.xml$/);
-    if (match) {
-      masters.push(`Master Slide ${match[1]}`);
+function resolveThemeFonts(paragraphs: TextParagraph[], fonts: ThemeFonts): void {
+  const resolve = (typeface: string | undefined) =>
+    typeface?.startsWith('+') ? fonts[THEME_FONT_REFERENCES[typeface]] : typeface;
+
+  for (const paragraph of paragraphs) {
+    for (const run of paragraph.runs) {
+      for (const key of ['font', 'eastAsianFont', 'complexScriptFont'] as const) {
+        if (!run[key]) continue;
+        const typeface = resolve(run[key]);
+        if (typeface) run[key] = typeface;
+        else delete run[key];
+      }
     }
-  });
-  
-  return masters;
+  }
 }
 
 /**
- * Extract custom properties
+ * Read the bullet set directly on a paragraph (a:buNone, a:buChar, a:buAutoNum, a:buBlip)
  */
-async function extractCustomProperties(zip: JSZip): Promise<Record<string, string>> {
-  const props: Record<string, string> = {};
-  
-  const customXml = await zip.file('docProps/custom.xml')?.async('text');
-  if (customXml) {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(customXml, 'text/xml');
-    
-    const properties = doc.getElementsByTagName('property');
-    for (let i = 0; i < properties.length; i++) {
-      const name = properties[i].getAttribute('name');
-      const value = properties[i].textContent;
-      if (name && value) {
-        props[name] = value;
-      }
+function readBullet(pPr: Element | null): BulletInfo | undefined {
+  if (!pPr) return undefined;
+
+  if (getChildElement(pPr, 'a:buNone')) {
+    return { type: 'none' };
+  }
+
+  const buChar = getChildElement(pPr, 'a:buChar');
+  if (buChar) {
+    return { type: 'char', char: buChar.getAttribute('char') || '' };
+  }
+
+  const buAutoNum = getChildElement(pPr, 'a:buAutoNum');
+  if (buAutoNum) {
+    const bullet: BulletInfo = { type: 'autoNumber', scheme: buAutoNum.getAttribute('type') || '' };
+    const startAt = buAutoNum.getAttribute('startAt');
+    if (startAt) bullet.startAt = parseInt(startAt, 10);
+    return bullet;
+  }
+
+  if (getChildElement(pPr, 'a:buBlip')) {
+    return { type: 'picture' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Helper: Find the id of the shape an element belongs to
+ */
+function findShapeId(element: Element): number | undefined {
+  for (let current = element.parentElement; current; current = current.parentElement) {
+    const kind = SHAPE_KINDS[elementName(current)];
+    if (kind && kind !== 'group') {
+      const id = getChildElement(current.firstElementChild, 'p:cNvPr')?.getAttribute('id');
+      return id ? parseInt(id, 10) : undefined;
     }
   }
-  
-  return props;
+  return undefined;
 }
 
 /**
- * Helper: Get text content from XML element by tag name
+ * Extract OLE object frames (p:oleObj). Objects inside mc:AlternateContent
+ * appear in both branches; the fallback copy is skipped.
  */
-function getTextContent(doc: Document, tagName: string): string {
-  const elements = doc.getElementsByTagName(tagName);
-  if (elements.length > 0) {
-    return elements[0].textContent || '';
+function parseOleObjects(doc: Document, context: SlideContext): EmbeddedObjectRef[] {
+  const objects: EmbeddedObjectRef[] = [];
+  const oleElements = getElements(doc, 'p:oleObj');
+
+  for (let i = 0; i < oleElements.length; i++) {
+    const element = oleElements[i];
+    if (findParentWithTag(element, 'mc:Fallback')) continue;
+
+    const object: EmbeddedObjectRef = {};
+    const name = element.getAttribute('name');
+    const progId = element.getAttribute('progId');
+    const shapeId = findShapeId(element);
+    const rel = context.rels.get(getAttribute(element, 'r:id') || '');
+    if (name) object.name = name;
+    if (progId) object.progId = progId;
+    if (shapeId !== undefined) object.shapeId = shapeId;
+    // Linked objects point at an external file
+    if (rel && !rel.external) object.partPath = rel.target;
+    objects.push(object);
   }
-  return '';
+
+  return objects;
 }
 
+// Media references in p:nvPr, by element
+const MEDIA_FILE_KINDS: Record<string, MediaUsage['kind']> = {
+  'a:videoFile': 'video',
+  'a:quickTimeFile': 'video',
+  'a:audioFile': 'audio',
+  'a:wavAudioFile': 'audio',
+};
+
 /**
- * Helper: Find parent element with specific tag
+ * Extract the video and audio shapes of a slide. a:videoFile/a:audioFile link the media;
+ * PowerPoint 2010 adds p14:media, which carries the embedded copy and the trim range.
  */
-function findParentWithTag(element: Element, tagName: string): Element | null {
-  let current = element.parentElement;
-  while (current) {
-    if (current.tagName === tagName) {
-      return current;
+function parseMediaUsages(doc: Document, context: SlideContext): MediaUsage[] {
+  const usages: MediaUsage[] = [];
+  const timing = getElement(doc, 'p:timing');
+  const nvPrElements = getElements(doc, 'p:nvPr');
+
+  for (let i = 0; i < nvPrElements.length; i++) {
+    const nvPr = nvPrElements[i];
+    if (findParentWithTag(nvPr, 'mc:Fallback')) continue;
+
+    let mediaFile: Element | null = null;
+    for (let child = nvPr.firstElementChild; child && !mediaFile; child = child.nextElementSibling) {
+      if (MEDIA_FILE_KINDS[elementName(child)]) mediaFile = child;
+    }
+    if (!mediaFile) continue;
+
+    const p14Media = getElement(nvPr, 'p14:media');
+    const relId = getAttribute(p14Media, 'r:embed') || getAttribute(p14Media, 'r:link')
+      || getAttribute(mediaFile, 'r:link') || getAttribute(mediaFile, 'r:embed') || '';
+    const rel = context.rels.get(relId);
+    if (!rel) continue;
+
+    const usage: MediaUsage = {
+      kind: MEDIA_FILE_KINDS[elementName(mediaFile)],
+      name: (!rel.external && context.mediaByPath.get(rel.target)?.name)
+        || mediaFile.getAttribute('name') || rel.target.split(/[\\/]/).pop() || rel.target,
+      target: rel.target,
+    };
+    if (rel.external) usage.external = true;
+
+    // The shape: p:nvPicPr/p:nvPr
+    const shape = nvPr.parentElement?.parentElement;
+    const cNvPr = getChildElement(nvPr.parentElement, 'p:cNvPr');
+    const shapeId = cNvPr?.getAttribute('id');
+    const shapeName = cNvPr?.getAttribute('name');
+    if (shapeId) usage.shapeId = parseInt(shapeId, 10);
+    if (shapeName) usage.shapeName = shapeName;
+
+    // The picture of a media shape is its poster frame
+    const blip = getChildElement(getChildElement(shape, 'p:blipFill'), 'a:blip');
+    const posterRel = context.rels.get(getAttribute(blip, 'r:embed') || '');
+    const poster = posterRel && !posterRel.external ? context.mediaByPath.get(posterRel.target) : undefined;
+    if (poster) usage.posterFrame = poster.name;
+
+    const trim = getChildElement(p14Media, 'p14:trim');
+    const trimStart = parseFloat(trim?.getAttribute('st') || '');
+    const trimEnd = parseFloat(trim?.getAttribute('end') || '');
+    if (trimStart > 0) usage.trimStart = trimStart;
+    if (trimEnd > 0) usage.trimEnd = trimEnd;
+
+    // Start offset and delay of the play command in the slide's timing
+    const play = usage.shapeId !== undefined ? findMediaPlayCommand(timing, usage.shapeId) : null;
+    if (play) {
+      const startAt = parseFloat(/^playFrom\(([\d.]+)\)/.exec(play.getAttribute('cmd') || '')?.[1] || '');
+      if (startAt > 0) usage.startAt = Math.round(startAt * 1000);
+      const effect = findParentWithTag(play, 'p:par');
+      const effectNode = getChildElement(effect, 'p:cTn');
+      const startDelay = effectNode ? getConditionDelay(effectNode) : 0;
+      if (startDelay > 0) usage.startDelay = startDelay;
+    }
+
+    usages.push(usage);
+  }
+
+  return usages;
+}
+
+/**
+ * Helper: The p:cmd in p:timing that plays a media shape, e.g. cmd="playFrom(2.5)"
+ */
+function findMediaPlayCommand(timing: Element | null, shapeId: number): Element | null {
+  const commands = getElements(timing, 'p:cmd');
+  for (const command of commands) {
+    if (command.getAttribute('cmd')?.startsWith('playFrom(') && getTargetShapeId(command) === shapeId) {
+      return command;
     }
-    current = current.parentElement;
   }
   return null;
 }
+
+/**
+ * Parse the slide transition (p:transition). Transitions introduced with PowerPoint 2010
+ * sit in mc:AlternateContent next to a fallback copy; the fallback is used only if
+ * there is nothing else.
+ */
+function parseTransition(doc: Document): TransitionInfo | undefined {
+  const elements = getElements(doc, 'p:transition');
+  const element = elements.find(el => !findParentWithTag(el, 'mc:Fallback')) || elements[0];
+  if (!element) return undefined;
+
+  const advClick = element.getAttribute('advClick');
+  const transition: TransitionInfo = {
+    type: 'none',
+    advanceOnClick: advClick === null || isTrue(advClick),
+  };
+
+  // The effect is the first child other than the sound action
+  for (let child = element.firstElementChild; child; child = child.nextElementSibling) {
+    const name = child.localName;
+    if (name === 'sndAc' || name === 'extLst') continue;
+    transition.type = name;
+    const direction = child.getAttribute('dir') || child.getAttribute('orient');
+    if (direction) transition.direction = direction;
+    break;
+  }
+
+  const speed = element.getAttribute('spd');
+  if (speed === 'slow' || speed === 'med' || speed === 'fast') transition.speed = speed;
+  const duration = parseInt(getAttribute(element, 'p14:dur') || '', 10);
+  if (!isNaN(duration)) transition.duration = duration;
+  const advanceAfter = parseInt(element.getAttribute('advTm') || '', 10);
+  if (!isNaN(advanceAfter)) transition.advanceAfter = advanceAfter;
+
+  return transition;
+}
+
+// p:cTn presetClass values
+const PRESET_CLASSES: Record<string, AnimationEffectClass> = {
+  entr: 'entrance',
+  exit: 'exit',
+  emph: 'emphasis',
+  path: 'path',
+  verb: 'verb',
+  mediacall: 'media',
+};
+
+// Entrance and exit effects share their preset ids
+const ENTRANCE_PRESETS: Record<number, string> = {
+  1: 'appear', 2: 'fly', 3: 'blinds', 4: 'box', 5: 'checkerboard', 6: 'circle',
+  7: 'crawl', 8: 'diamond', 9: 'dissolve', 10: 'fade', 11: 'flashOnce', 12: 'peek',
+  13: 'plus', 14: 'randomBars', 15: 'spiral', 16: 'split', 17: 'stretch', 18: 'strips',
+  19: 'swivel', 20: 'wedge', 21: 'wheel', 22: 'wipe', 23: 'zoom', 24: 'randomEffects',
+  25: 'boomerang', 26: 'bounce',
+};
+
+const PRESET_NAMES: Partial<Record<AnimationEffectClass, Record<number, string>>> = {
+  entrance: ENTRANCE_PRESETS,
+  exit: ENTRANCE_PRESETS,
+  emphasis: {
+    1: 'changeFillColor', 2: 'changeFont', 3: 'changeFontColor', 4: 'changeFontSize',
+    5: 'changeFontStyle', 6: 'growShrink', 7: 'changeLineColor', 8: 'spin', 9: 'transparency',
+  },
+  path: { 0: 'customPath' },
+  media: { 1: 'play', 2: 'pause', 3: 'stop' },
+};
+
+// p:cTn nodeType of an effect in the main sequence
+const NODE_TRIGGERS: Record<string, AnimationTrigger> = {
+  clickEffect: 'onClick',
+  withEffect: 'withPrevious',
+  afterEffect: 'afterPrevious',
+};
+
+/**
+ * Extract the animation build sequence from p:timing.
+ * Effects are the p:cTn nodes with a presetClass, in document (= playback) order.
+ * Steps of the main sequence are numbered by click; steps of interactive
+ * sequences start when their trigger shape is clicked.
+ */
+function parseAnimations(doc: Document): AnimationStep[] {
+  const timing = getElement(doc, 'p:timing');
+  if (!timing) return [];
+
+  const shapeNames = new Map<number, string>();
+  const cNvPrs = getElements(doc, 'p:cNvPr');
+  for (let i = 0; i < cNvPrs.length; i++) {
+    const name = cNvPrs[i].getAttribute('name');
+    if (name) shapeNames.set(parseInt(cNvPrs[i].getAttribute('id') || '', 10), name);
+  }
+
+  const steps: AnimationStep[] = [];
+  const timeNodes = getElements(timing, 'p:cTn');
+  let click = 0;
+
+  for (let i = 0; i < timeNodes.length; i++) {
+    const node = timeNodes[i];
+    const presetClass = node.getAttribute('presetClass');
+    if (!presetClass) continue;
+
+    const effectClass = PRESET_CLASSES[presetClass] || 'verb';
+    const presetId = parseInt(node.getAttribute('presetID') || '', 10);
+    const interactive = findSequenceNode(node, 'interactiveSeq');
+
+    let trigger = NODE_TRIGGERS[node.getAttribute('nodeType') || ''] || 'withPrevious';
+    let triggerShapeId: number | undefined;
+    if (interactive) {
+      trigger = 'onShapeClick';
+      triggerShapeId = getTargetShapeId(getChildElement(interactive, 'p:stCondLst'));
+    } else if (trigger === 'onClick') {
+      click++;
+    }
+
+    const step: AnimationStep = {
+      click: interactive ? 0 : click,
+      trigger,
+      effectClass,
+      effect: PRESET_NAMES[effectClass]?.[presetId] || (isNaN(presetId) ? presetClass : `preset ${presetId}`),
+      delay: getConditionDelay(node),
+    };
+    if (!isNaN(presetId)) step.presetId = presetId;
+
+    const shapeId = getTargetShapeId(getChildElement(node, 'p:childTnLst'));
+    if (shapeId !== undefined) {
+      step.shapeId = shapeId;
+      const shapeName = shapeNames.get(shapeId);
+      if (shapeName) step.shapeName = shapeName;
+    }
+    const range = getElement(node, 'p:pRg');
+    if (range) {
+      step.paragraphs = {
+        start: parseInt(range.getAttribute('st') || '0', 10),
+        end: parseInt(range.getAttribute('end') || '0', 10),
+      };
+    }
+    const duration = getEffectDuration(node);
+    if (duration !== undefined) step.duration = duration;
+    if (triggerShapeId !== undefined) step.triggerShapeId = triggerShapeId;
+
+    steps.push(step);
+  }
+
+  return steps;
+}
+
+/**
+ * Helper: Closest enclosing p:cTn of a sequence type (mainSeq, interactiveSeq)
+ */
+function findSequenceNode(node: Element, nodeType: string): Element | null {
+  for (let current = node.parentElement; current; current = current.parentElement) {
+    if (elementName(current) === 'p:cTn' && current.getAttribute('nodeType') === nodeType) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/**
+ * Helper: Delay of a time node's start condition in milliseconds ("indefinite" waits for a click)
+ */
+function getConditionDelay(node: Element): number {
+  const condition = getChildElement(getChildElement(node, 'p:stCondLst'), 'p:cond');
+  const delay = parseInt(condition?.getAttribute('delay') || '0', 10);
+  return isNaN(delay) ? 0 : delay;
+}
+
+/**
+ * Helper: Longest duration among an effect's behaviours, in milliseconds
+ */
+function getEffectDuration(node: Element): number | undefined {
+  let duration: number | undefined;
+  const behaviours = getElements(node, 'p:cTn');
+  for (let i = 0; i < behaviours.length; i++) {
+    const dur = parseInt(behaviours[i].getAttribute('dur') || '', 10);
+    if (!isNaN(dur)) duration = Math.max(duration ?? 0, dur);
+  }
+  return duration;
+}
+
+/**
+ * Helper: First shape targeted (p:spTgt) below an element
+ */
+function getTargetShapeId(element: Element | null): number | undefined {
+  const target = getElement(element, 'p:spTgt');
+  const id = parseInt(target?.getAttribute('spid') || '', 10);
+  return isNaN(id) ? undefined : id;
+}
+
+/**
+ * Extract hyperlinks and actions.
+ * Run-level links sit in a:rPr and shape-level actions in the shape's p:cNvPr;
+ * consecutive runs sharing the same link are merged into one anchor.
+ */
+function parseLinks(doc: Document, context: SlideContext): LinkInfo[] {
+  const links: LinkInfo[] = [];
+
+  for (const tagName of ['a:hlinkClick', 'a:hlinkMouseOver']) {
+    const hlinks = getElements(doc, tagName);
+    let previous: { run: Element; link: LinkInfo } | null = null;
+
+    for (let i = 0; i < hlinks.length; i++) {
+      const hlink = hlinks[i];
+      const owner = hlink.parentElement;
+      if (!owner || findParentWithTag(hlink, 'mc:Fallback')) continue;
+
+      let text: string;
+      let run: Element | null = null;
+      if (elementName(owner) === 'a:rPr' && owner.parentElement) {
+        run = owner.parentElement;
+        text = getChildElement(run, 'a:t')?.textContent || '';
+      } else if (elementName(owner) === 'p:cNvPr') {
+        const shapeElement = owner.parentElement?.parentElement;
+        text = shapeElement ? parseParagraphs(shapeElement).map(p => p.text).join(' ') : '';
+      } else {
+        // Defaults in list styles (a:defRPr) and end-of-paragraph properties carry no anchor
+        continue;
+      }
+
+      const target = resolveLinkTarget(hlink, context);
+      if (!target) continue;
+
+      // Continue the previous anchor when this run directly follows it with the same target
+      if (run && previous && run.previousElementSibling === previous.run &&
+          previous.link.action === target.action && previous.link.target === target.target &&
+          previous.link.targetSlide === target.targetSlide) {
+        previous.link.text += text;
+        previous.run = run;
+        continue;
+      }
+
+      const link: LinkInfo = { text, ...target };
+      const tooltip = hlink.getAttribute('tooltip');
+      if (tooltip) link.tooltip = tooltip;
+      if (tagName === 'a:hlinkMouseOver') link.hover = true;
+      const shapeId = elementName(owner) === 'p:cNvPr' ? parseInt(owner.getAttribute('id') || '', 10) : findShapeId(hlink);
+      if (shapeId !== undefined && !isNaN(shapeId)) link.shapeId = shapeId;
+
+      links.push(link);
+      previous = run ? { run, link } : null;
+    }
+  }
+
+  return links;
+}
+
+// Jumps named by ppaction://hlinkshowjump?jump=...
+const SHOW_JUMPS: Record<string, LinkAction> = {
+  firstslide: 'firstSlide',
+  lastslide: 'lastSlide',
+  nextslide: 'nextSlide',
+  previousslide: 'previousSlide',
+  lastslideviewed: 'lastSlideViewed',
+  endshow: 'endShow',
+};
+
+/**
+ * Classify an a:hlinkClick/a:hlinkMouseOver by its ppaction:// verb and relationship.
+ * Returns null for links that do nothing (ppaction://noaction, sound-only actions).
+ */
+function resolveLinkTarget(
+  hlink: Element,
+  context: SlideContext
+): Pick<LinkInfo, 'action' | 'target' | 'targetSlide'> | null {
+  const action = hlink.getAttribute('action') || '';
+  const rel = context.rels.get(getAttribute(hlink, 'r:id') || '');
+  const query = new URLSearchParams(action.split('?')[1] || '');
+
+  if (action.startsWith('ppaction://hlinksldjump')) {
+    const targetSlide = rel ? context.slideNumbers.get(rel.target) : undefined;
+    return targetSlide !== undefined ? { action: 'slide', targetSlide } : null;
+  }
+  if (action.startsWith('ppaction://hlinkshowjump')) {
+    const jump = SHOW_JUMPS[(query.get('jump') || '').toLowerCase()];
+    return jump ? { action: jump } : null;
+  }
+  if (action.startsWith('ppaction://customshow')) {
+    return { action: 'customShow', target: query.get('id') || undefined };
+  }
+  if (action.startsWith('ppaction://macro')) {
+    return { action: 'macro', target: query.get('name') || undefined };
+  }
+  if (action.startsWith('ppaction://ole')) {
+    return { action: 'ole' };
+  }
+  if (action.startsWith('ppaction://media')) {
+    return { action: 'media' };
+  }
+  if (!rel) {
+    return null;
+  }
+  if (action.startsWith('ppaction://program')) {
+    return { action: 'program', target: rel.target };
+  }
+  if (action.startsWith('ppaction://hlinkpres') || action.startsWith('ppaction://hlinkfile')) {
+    return { action: 'file', target: rel.target };
+  }
+  if (!action && rel.external) {
+    return { action: 'url', target: rel.target };
+  }
+  return null;
+}
+
+const SHAPE_KINDS: Record<string, ShapeKind> = {
+  'p:sp': 'shape',
+  'p:pic': 'picture',
+  'p:graphicFrame': 'graphicFrame',
+  'p:cxnSp': 'connector',
+  'p:grpSp': 'group',
+};
+
+// EMU per point
+const EMU_PER_POINT = 12700;
+
+/**
+ * Parse the children of p:spTree or p:grpSp in z-order
+ */
+function parseShapeTree(
+  container: Element,
+  space: CoordinateSpace,
+  colors?: ColorContext,
+  layoutPlaceholders?: PlaceholderInfo[]
+): ShapeInfo[] {
+  const shapes: ShapeInfo[] = [];
+
+  for (let child = container.firstElementChild; child; child = child.nextElementSibling) {
+    if (elementName(child) === 'mc:AlternateContent') {
+      // Prefer the first mc:Choice; use mc:Fallback only when the choice holds no shapes
+      const choice = getChildElement(child, 'mc:Choice');
+      const fromChoice = choice ? parseShapeTree(choice, space, colors, layoutPlaceholders) : [];
+      const fallback = getChildElement(child, 'mc:Fallback');
+      shapes.push(...(fromChoice.length > 0 || !fallback
+        ? fromChoice
+        : parseShapeTree(fallback, space, colors, layoutPlaceholders)));
+      continue;
+    }
+
+    const kind = SHAPE_KINDS[elementName(child)];
+    if (kind) {
+      shapes.push(parseShapeElement(child, kind, space, colors, layoutPlaceholders));
+    }
+  }
+
+  return shapes;
+}
+
+/**
+ * Parse a shape-like element (p:sp, p:pic, p:graphicFrame, p:cxnSp, p:grpSp)
+ */
+function parseShapeElement(
+  element: Element,
+  kind: ShapeKind,
+  space: CoordinateSpace,
+  colors?: ColorContext,
+  layoutPlaceholders?: PlaceholderInfo[]
+): ShapeInfo {
+  const shapeText: string[] = [];
+  const textEls = getElements(element, 'a:t');
+  for (let j = 0; j < textEls.length; j++) {
+    const t = textEls[j].textContent?.trim();
+    if (t) shapeText.push(t);
+  }
+
+  const shape: ShapeInfo = {
+    type: getShapeType(element, kind),
+    text: shapeText.join(' '),
+    kind,
+  };
+
+  // Non-visual properties: p:nvSpPr, p:nvPicPr, p:nvGraphicFramePr, p:nvCxnSpPr, p:nvGrpSpPr
+  const cNvPr = getChildElement(element.firstElementChild, 'p:cNvPr');
+  if (cNvPr) {
+    const id = parseInt(cNvPr.getAttribute('id') || '', 10);
+    if (!isNaN(id)) shape.id = id;
+    shape.name = cNvPr.getAttribute('name') || '';
+
+    // Alt text and the decorative flag (an a:extLst extension)
+    const altText = cNvPr.getAttribute('descr');
+    if (altText) shape.altText = altText;
+    const title = cNvPr.getAttribute('title');
+    if (title) shape.title = title;
+    if (isTrue(getAttribute(getElement(cNvPr, 'adec:decorative'), 'val'))) shape.decorative = true;
+  }
+
+  const ph = getChildElement(getChildElement(element.firstElementChild, 'p:nvPr'), 'p:ph');
+  if (ph) {
+    shape.placeholder = resolvePlaceholderType(ph, layoutPlaceholders);
+  }
+
+  // Graphic frames carry p:xfrm directly, groups use p:grpSpPr, everything else p:spPr
+  const xfrm = kind === 'graphicFrame'
+    ? getChildElement(element, 'p:xfrm')
+    : getChildElement(getChildElement(element, kind === 'group' ? 'p:grpSpPr' : 'p:spPr'), 'a:xfrm');
+  const transform = readTransform(xfrm);
+  if (transform) {
+    applyTransform(shape, transform, space);
+  }
+
+  if (kind === 'group') {
+    let childSpace = space;
+    const chOff = getChildElement(xfrm, 'a:chOff');
+    const chExt = getChildElement(xfrm, 'a:chExt');
+    if (transform && chOff && chExt) {
+      shape.childSpace = {
+        x: parseInt(chOff.getAttribute('x') || '0', 10),
+        y: parseInt(chOff.getAttribute('y') || '0', 10),
+        width: parseInt(chExt.getAttribute('cx') || '0', 10),
+        height: parseInt(chExt.getAttribute('cy') || '0', 10),
+      };
+      childSpace = composeGroupSpace(space, transform, shape.childSpace);
+    }
+    shape.children = parseShapeTree(element, childSpace, colors, layoutPlaceholders);
+  }
+
+  const fill = readShapeFill(element, kind, colors);
+  if (fill) shape.fill = fill;
+
+  return shape;
+}
+
+/**
+ * Fill color of a shape: its own fill in p:spPr, else the color of its style's a:fillRef
+ */
+function readShapeFill(element: Element, kind: ShapeKind, colors?: ColorContext): string | undefined {
+  if (kind === 'graphicFrame') return undefined;
+  const spPr = getChildElement(element, kind === 'group' ? 'p:grpSpPr' : 'p:spPr');
+
+  for (let child = spPr?.firstElementChild; child; child = child.nextElementSibling) {
+    if (elementName(child) === 'a:noFill') return undefined;
+    const fill = readFill(child, colors);
+    if (fill) return fill.color;
+  }
+
+  const fillRef = getChildElement(getChildElement(element, 'p:style'), 'a:fillRef');
+  return fillRef && fillRef.getAttribute('idx') !== '0' ? resolveColor(fillRef, colors) : undefined;
+}
+
+/**
+ * Parse a table (a:tbl) into its grid. PPTX keeps one a:tc per grid position;
+ * the cells covered by a merge carry hMerge/vMerge.
+ */
+function parseTable(tbl: Element, colors?: ColorContext): TableInfo | null {
+  const cells: string[][] = [];
+  const grid: TableCell[][] = [];
+
+  for (let tr = tbl.firstElementChild; tr; tr = tr.nextElementSibling) {
+    if (elementName(tr) !== 'a:tr') continue;
+    const rowText: string[] = [];
+    const rowCells: TableCell[] = [];
+
+    for (let tc = tr.firstElementChild; tc; tc = tc.nextElementSibling) {
+      if (elementName(tc) !== 'a:tc') continue;
+      const cellContent: string[] = [];
+      const texts = getElements(tc, 'a:t');
+      for (let t = 0; t < texts.length; t++) {
+        const text = texts[t].textContent?.trim();
+        if (text) cellContent.push(text);
+      }
+
+      const cell: TableCell = {
+        text: cellContent.join(' '),
+        colSpan: parseInt(tc.getAttribute('gridSpan') || '1', 10),
+        rowSpan: parseInt(tc.getAttribute('rowSpan') || '1', 10),
+      };
+      if (isTrue(tc.getAttribute('hMerge')) || isTrue(tc.getAttribute('vMerge'))) {
+        cell.merged = true;
+        cell.text = '';
+      }
+
+      const tcPr = getChildElement(tc, 'a:tcPr');
+      for (let child = tcPr?.firstElementChild; child; child = child.nextElementSibling) {
+        const fill = readFill(child, colors);
+        if (fill?.color) cell.fill = fill.color;
+        if (fill) break;
+      }
+
+      rowText.push(cell.text);
+      rowCells.push(cell);
+    }
+
+    cells.push(rowText);
+    grid.push(rowCells);
+  }
+
+  if (cells.length === 0) return null;
+
+  const columnWidths: number[] = [];
+  const gridCols = getElements(getChildElement(tbl, 'a:tblGrid'), 'a:gridCol');
+  for (let c = 0; c < gridCols.length; c++) {
+    columnWidths.push(emuToPoints(parseInt(gridCols[c].getAttribute('w') || '0', 10)));
+  }
+
+  const table: TableInfo = {
+    rows: cells.length,
+    columns: columnWidths.length || Math.max(...cells.map(row => row.length)),
+    cells,
+    grid,
+  };
+  if (columnWidths.length > 0) table.columnWidths = columnWidths;
+
+  const tblPr = getChildElement(tbl, 'a:tblPr');
+  if (tblPr && isTrue(tblPr.getAttribute('firstRow'))) table.headerRow = true;
+  if (tblPr && isTrue(tblPr.getAttribute('firstCol'))) table.firstColumn = true;
+
+  return table;
+}
+
+/**
+ * Helper: Placeholder role of a p:ph; without a type, the layout placeholder
+ * with the same idx decides
+ */
+function resolvePlaceholderType(ph: Element, layoutPlaceholders: PlaceholderInfo[] = []): string {
+  const type = ph.getAttribute('type');
+  if (type) return type;
+
+  const idx = parseInt(ph.getAttribute('idx') || '0', 10);
+  const inherited = layoutPlaceholders.find(placeholder => (placeholder.index ?? 0) === idx);
+  // ST_PlaceholderType defaults to obj
+  return inherited?.type || 'obj';
+}
+
+/**
+ * Helper: Flatten a shape tree into its non-group shapes, depth first
+ */
+function collectLeafShapes(tree: ShapeInfo[], into: ShapeInfo[]): void {
+  for (const shape of tree) {
+    if (shape.children) {
+      collectLeafShapes(shape.children, into);
+    } else {
+      into.push(shape);
+    }
+  }
+}
+
+/**
+ * Describe a shape: placeholder type, or what kind of element it is
+ */
+function getShapeType(element: Element, kind: ShapeKind): string {
+  // Non-visual properties: p:nvSpPr, p:nvPicPr, p:nvGraphicFramePr, p:nvCxnSpPr
+  const nvPr = getChildElement(element.firstElementChild, 'p:nvPr');
+  const ph = getChildElement(nvPr, 'p:ph');
+  if (ph) {
+    return ph.getAttribute('type') || 'Shape';
+  }
+
+  switch (kind) {
+    case 'group':
+      return 'Group';
+    case 'picture':
+      return 'Picture';
+    case 'connector':
+      return 'Connector';
+    case 'graphicFrame': {
+      const uri = getElement(element, 'a:graphicData')?.getAttribute('uri') || '';
+      if (uri.endsWith('/table')) return 'Table';
+      if (uri.endsWith('/chart')) return 'Chart';
+      if (uri.endsWith('/diagram')) return 'Diagram';
+      if (uri.endsWith('/ole')) return 'OLE Object';
+      return 'Graphic Frame';
+    }
+    default:
+      return 'Shape';
+  }
+}
+
+/**
+ * Read a DrawingML transform (a:xfrm or p:xfrm) into EMU
+ */
+function readTransform(xfrm: Element | null): ShapeTransform | null {
+  const off = getChildElement(xfrm, 'a:off');
+  const ext = getChildElement(xfrm, 'a:ext');
+  if (!xfrm || (!off && !ext)) return null;
+
+  return {
+    x: parseInt(off?.getAttribute('x') || '0', 10),
+    y: parseInt(off?.getAttribute('y') || '0', 10),
+    width: parseInt(ext?.getAttribute('cx') || '0', 10),
+    height: parseInt(ext?.getAttribute('cy') || '0', 10),
+    // rot is in 60,000ths of a degree
+    rotation: parseInt(xfrm.getAttribute('rot') || '0', 10) / 60000,
+    flipH: isTrue(xfrm.getAttribute('flipH')),
+    flipV: isTrue(xfrm.getAttribute('flipV')),
+  };
+}
+
+/**
+ * Set a shape's transform along with its slide position and size in points
+ */
+function applyTransform(shape: ShapeInfo, transform: ShapeTransform, space: CoordinateSpace): void {
+  shape.position = {
+    x: emuToPoints(transform.x * space.scaleX + space.offsetX),
+    y: emuToPoints(transform.y * space.scaleY + space.offsetY),
+  };
+  shape.size = {
+    width: emuToPoints(transform.width * space.scaleX),
+    height: emuToPoints(transform.height * space.scaleY),
+  };
+  shape.transform = transform;
+}
+
+function emuToPoints(emu: number): number {
+  return Math.round((emu / EMU_PER_POINT) * 100) / 100;
+}
+
+/**
+ * Describe the media part a slide refers to, without duplicating its data
+ */
+function resolveMediaReference(partPath: string, mediaByPath: Map<string, MediaInfo>): MediaInfo {
+  const media = mediaByPath.get(partPath);
+  if (media) {
+    return {
+      name: media.name,
+      type: media.type,
+      size: media.size,
+      extension: media.extension,
+      path: media.path,
+    };
+  }
+
+  // Referenced part is not under ppt/media (or is missing from the package)
+  const name = partPath.split('/').pop() || partPath;
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return {
+    name,
+    type: getMediaType(extension),
+    size: 0,
+    extension,
+    path: partPath,
+  };
+}
+
+/**
+ * Build the reverse index of which slides use each media file
+ */
+function buildMediaUsage(slides: SlideContent[]): Record<string, number[]> {
+  const usage: Record<string, number[]> = {};
+  for (const slide of slides) {
+    for (const image of slide.images) {
+      const slideNumbers = usage[image.name] || (usage[image.name] = []);
+      if (!slideNumbers.includes(slide.slideNumber)) {
+        slideNumbers.push(slide.slideNumber);
+      }
+    }
+  }
+  return usage;
+}
+
+/**
+ * Extract sections (p14:sectionLst) and custom shows (p:custShowLst) from ppt/presentation.xml.
+ * Sections list slides by slide id; custom shows list them by relationship id.
+ * Slides get the name of their section.
+ */
+async function extractSectionsAndShows(
+  zip: JSZip,
+  slides: SlideContent[]
+): Promise<{ sections: SectionInfo[]; customShows: CustomShowInfo[] }> {
+  const sections: SectionInfo[] = [];
+  const customShows: CustomShowInfo[] = [];
+
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('text');
+  if (!presentationXml) return { sections, customShows };
+
+  const doc = parseXml(presentationXml);
+  const rels = await readRelationships(zip, 'ppt/presentation.xml');
+  const bySlideId = new Map(slides.filter(s => s.slideId !== undefined).map(s => [s.slideId!, s]));
+  const byPartPath = new Map(slides.filter(s => s.partPath).map(s => [s.partPath!, s]));
+
+  const sectionElements = getElements(doc, 'p14:section');
+  for (let i = 0; i < sectionElements.length; i++) {
+    const section: SectionInfo = { name: sectionElements[i].getAttribute('name') || '', slides: [] };
+    const id = sectionElements[i].getAttribute('id');
+    if (id) section.id = id;
+
+    const sldIds = getElements(sectionElements[i], 'p14:sldId');
+    for (let j = 0; j < sldIds.length; j++) {
+      const slide = bySlideId.get(parseInt(sldIds[j].getAttribute('id') || '', 10));
+      if (slide) {
+        slide.section = section.name;
+        section.slides.push(slide.slideNumber);
+      }
+    }
+    sections.push(section);
+  }
+
+  const showElements = getElements(doc, 'p:custShow');
+  for (let i = 0; i < showElements.length; i++) {
+    const show: CustomShowInfo = { name: showElements[i].getAttribute('name') || '', slides: [] };
+    const id = parseInt(showElements[i].getAttribute('id') || '', 10);
+    if (!isNaN(id)) show.id = id;
+
+    const sldElements = getElements(showElements[i], 'p:sld');
+    for (let j = 0; j < sldElements.length; j++) {
+      const rel = rels.get(getAttribute(sldElements[j], 'r:id') || '');
+      const slide = rel ? byPartPath.get(rel.target) : undefined;
+      if (slide) show.slides.push(slide.slideNumber);
+    }
+    customShows.push(show);
+  }
+
+  return { sections, customShows };
+}
+
+/**
+ * Extract slide and notes sizes, numbering and direction from ppt/presentation.xml,
+ * and the slide show settings from its presProps part
+ */
+async function extractPresentationProperties(
+  zip: JSZip,
+  customShows: CustomShowInfo[]
+): Promise<PresentationProperties | undefined> {
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('text');
+  if (!presentationXml) return undefined;
+
+  const doc = parseXml(presentationXml);
+  const presentation = doc.documentElement;
+  const sldSz = getElement(doc, 'p:sldSz');
+  const properties: PresentationProperties = {
+    // Without p:sldSz PowerPoint uses 10 x 7.5 inches; ST_SlideSizeType defaults to custom
+    slideSize: {
+      ...(readPageSize(sldSz) || { width: 9144000, height: 6858000 }),
+      type: sldSz?.getAttribute('type') || 'custom',
+    },
+    firstSlideNumber: parseInt(presentation.getAttribute('firstSlideNum') || '1', 10),
+    rightToLeft: isTrue(presentation.getAttribute('rtl')),
+  };
+
+  const notesSize = readPageSize(getElement(doc, 'p:notesSz'));
+  if (notesSize) properties.notesSize = notesSize;
+
+  const rels = await readRelationships(zip, 'ppt/presentation.xml');
+  const presPropsPath = findRelationshipByType(rels, 'presProps')?.target || 'ppt/presProps.xml';
+  const presPropsXml = await zip.file(presPropsPath)?.async('text');
+  const showPr = presPropsXml ? getElement(parseXml(presPropsXml), 'p:showPr') : null;
+  if (showPr) properties.show = readShowSettings(showPr, customShows);
+
+  return properties;
+}
+
+/**
+ * Helper: Read a size element (p:sldSz, p:notesSz) in EMU
+ */
+function readPageSize(element: Element | null): PageSize | undefined {
+  const width = parseInt(element?.getAttribute('cx') || '', 10);
+  const height = parseInt(element?.getAttribute('cy') || '', 10);
+  return isNaN(width) || isNaN(height) ? undefined : { width, height };
+}
+
+/**
+ * Read slide show settings (p:showPr); the show type is p:present, p:browse or p:kiosk
+ */
+function readShowSettings(showPr: Element, customShows: CustomShowInfo[]): SlideShowSettings {
+  const kiosk = getChildElement(showPr, 'p:kiosk');
+  const useTimings = showPr.getAttribute('useTimings');
+  const settings: SlideShowSettings = {
+    mode: kiosk ? 'kiosk' : getChildElement(showPr, 'p:browse') ? 'browse' : 'presenter',
+    loop: isTrue(showPr.getAttribute('loop')),
+    useTimings: useTimings === null || isTrue(useTimings),
+    showNarration: isTrue(showPr.getAttribute('showNarration')),
+  };
+
+  // Kiosk mode restarts after 5 minutes unless set otherwise
+  if (kiosk) settings.restartTime = parseInt(kiosk.getAttribute('restart') || '300000', 10);
+
+  const penColor = resolveColor(getChildElement(showPr, 'p:penClr'));
+  if (penColor) settings.penColor = penColor;
+
+  const sldRg = getChildElement(showPr, 'p:sldRg');
+  if (sldRg) {
+    settings.slideRange = {
+      start: parseInt(sldRg.getAttribute('st') || '1', 10),
+      end: parseInt(sldRg.getAttribute('end') || '1', 10),
+    };
+  }
+
+  const custShowId = parseInt(getChildElement(showPr, 'p:custShow')?.getAttribute('id') || '', 10);
+  const customShow = customShows.find(show => show.id === custShowId);
+  if (customShow) settings.customShow = customShow.name;
+
+  return settings;
+}
+
+/**
+ * Read and parse the chart parts a slide links to
+ */
+async function extractCharts(zip: JSZip, rels: Map<string, Relationship>): Promise<Map<string, ChartInfo>> {
+  const charts = new Map<string, ChartInfo>();
+
+  for (const rel of rels.values()) {
+    if (rel.external || !rel.type.endsWith('/chart')) continue;
+    const chartXml = await zip.file(rel.target)?.async('text');
+    if (chartXml) {
+      charts.set(rel.target, parseChartXml(chartXml, rel.target));
+    }
+  }
+
+  return charts;
+}
+
+/**
+ * Parse a chart part (c:chartSpace).
+ * Every plot in c:plotArea (c:barChart, c:lineChart, ...) contributes its series;
+ * the data comes from the caches stored next to the embedded workbook references.
+ */
+function parseChartXml(xml: string, partPath: string): ChartInfo {
+  const doc = parseXml(xml);
+
+  const series: ChartSeries[] = [];
+  const kinds = new Set<string>();
+  let categories: string[] = [];
+
+  const plotArea = getElement(doc, 'c:plotArea');
+  for (let plot = plotArea?.firstElementChild; plot; plot = plot.nextElementSibling) {
+    if (!elementName(plot).endsWith('Chart')) continue;
+
+    const kind = getPlotKind(plot);
+    kinds.add(kind);
+
+    for (let ser = plot.firstElementChild; ser; ser = ser.nextElementSibling) {
+      if (elementName(ser) !== 'c:ser') continue;
+
+      // Scatter and bubble series use x/y values instead of categories/values
+      const values = readChartCache(getChildElement(ser, 'c:val') || getChildElement(ser, 'c:yVal'))
+        .map(value => (value === '' || isNaN(Number(value)) ? null : Number(value)));
+      if (categories.length === 0) {
+        categories = readChartCache(getChildElement(ser, 'c:cat') || getChildElement(ser, 'c:xVal'));
+      }
+
+      series.push({
+        name: readChartText(getChildElement(ser, 'c:tx')) || `Series ${series.length + 1}`,
+        kind,
+        values,
+      });
+    }
+  }
+
+  // A title element without text means the single series names the chart
+  const chart = getElement(doc, 'c:chart');
+  const titleElement = getChildElement(chart, 'c:title');
+  let title = readChartText(getChildElement(titleElement, 'c:tx'));
+  const autoTitleDeleted = getChildElement(chart, 'c:autoTitleDeleted')?.getAttribute('val') ?? null;
+  if (!title && titleElement && series.length === 1 && !isTrue(autoTitleDeleted)) {
+    title = series[0].name;
+  }
+
+  return {
+    kind: kinds.size > 1 ? 'combo' : kinds.values().next().value || 'unknown',
+    title,
+    categories,
+    series,
+    partPath,
+  };
+}
+
+/**
+ * Helper: Plot type from its element, e.g. c:lineChart -> "line", c:barChart with barDir="col" -> "column"
+ */
+function getPlotKind(plot: Element): string {
+  const kind = elementName(plot).replace(/^c:/, '').replace(/Chart$/, '');
+  if (kind.startsWith('bar') && getChildElement(plot, 'c:barDir')?.getAttribute('val') === 'col') {
+    return kind.replace('bar', 'column');
+  }
+  return kind;
+}
+
+// Rows of a worksheet, the most points a chart cache can reference
+const MAX_CHART_POINTS = 1048576;
+
+/**
+ * Helper: Read the cached points of a data reference (c:cat, c:val, c:xVal, ...) by index.
+ * Multi-level category caches use their first (innermost) level.
+ */
+function readChartCache(element: Element | null): string[] {
+  if (!element) return [];
+
+  let cache: Element | null = null;
+  for (const tagName of ['c:numCache', 'c:strCache', 'c:numLit', 'c:strLit', 'c:lvl']) {
+    cache = getElement(element, tagName);
+    if (cache) break;
+  }
+  if (!cache) return [];
+
+  const ptElements = getElements(cache, 'c:pt');
+  const ptCount = parseInt(getChildElement(cache, 'c:ptCount')?.getAttribute('val') || '', 10);
+  const declared = isNaN(ptCount) || ptCount < 0 ? 0 : ptCount;
+  // ptCount and idx come from the file: indexes past both ptCount and the number of
+  // points, or past a worksheet's rows, are dropped rather than allocated
+  const limit = Math.min(Math.max(declared, ptElements.length), MAX_CHART_POINTS);
+
+  const points: string[] = [];
+  for (let i = 0; i < ptElements.length; i++) {
+    const idx = parseInt(ptElements[i].getAttribute('idx') || '', 10);
+    if (idx >= 0 && idx < limit) {
+      points[idx] = getChildElement(ptElements[i], 'c:v')?.textContent || '';
+    }
+  }
+
+  // Blank points are empty strings; trailing blanks up to ptCount are kept while ptCount
+  // stays within the number of points plus the largest index
+  const length = Math.max(points.length, Math.min(declared, ptElements.length + points.length));
+  return Array.from({ length }, (_, i) => points[i] ?? '');
+}
+
+/**
+ * Helper: Read chart text (c:tx) given as rich text, a cached string reference or a literal
+ */
+function readChartText(tx: Element | null): string {
+  if (!tx) return '';
+
+  const rich = getChildElement(tx, 'c:rich');
+  if (rich) {
+    return parseParagraphs(rich).map(p => p.text).join(' ');
+  }
+  const strRef = getChildElement(tx, 'c:strRef');
+  if (strRef) {
+    return readChartCache(strRef).join(' ').trim();
+  }
+  return getChildElement(tx, 'c:v')?.textContent?.trim() || '';
+}
+
+/**
+ * Read and parse the SmartArt data parts a slide links to
+ */
+async function extractDiagrams(zip: JSZip, rels: Map<string, Relationship>): Promise<Map<string, DiagramInfo>> {
+  const diagrams = new Map<string, DiagramInfo>();
+
+  for (const rel of rels.values()) {
+    if (rel.external || !rel.type.endsWith('/diagramData')) continue;
+    const dataXml = await zip.file(rel.target)?.async('text');
+    if (dataXml) {
+      diagrams.set(rel.target, parseDiagramData(dataXml, rel.target));
+    }
+  }
+
+  return diagrams;
+}
+
+/**
+ * Parse a SmartArt data model (dgm:dataModel) into its point tree.
+ * Points (dgm:pt) are linked by parOf connections (dgm:cxn srcId -> destId, ordered by srcOrd);
+ * the doc point is the root. Transition and presentation points carry no content and are skipped.
+ */
+function parseDiagramData(xml: string, partPath: string): DiagramInfo {
+  const doc = parseXml(xml);
+
+  const nodes = new Map<string, DiagramNode>();
+  let rootId: string | undefined;
+  let layout: string | undefined;
+
+  const ptElements = getElements(doc, 'dgm:pt');
+  for (let i = 0; i < ptElements.length; i++) {
+    const pt = ptElements[i];
+    const id = pt.getAttribute('modelId');
+    const type = pt.getAttribute('type') || 'node';
+    if (!id || (type !== 'node' && type !== 'asst' && type !== 'doc')) continue;
+
+    if (type === 'doc') {
+      rootId = id;
+      layout = getChildElement(pt, 'dgm:prSet')?.getAttribute('loTypeId') || undefined;
+    }
+
+    const t = getChildElement(pt, 'dgm:t');
+    const node: DiagramNode = {
+      id,
+      text: t ? parseParagraphs(t).map(p => p.text).join('\n') : '',
+      children: [],
+    };
+    if (type === 'asst') node.assistant = true;
+    nodes.set(id, node);
+  }
+
+  // Parent/child connections; parOf is the default connection type
+  const links: { parent: DiagramNode; child: DiagramNode; order: number }[] = [];
+  const cxnElements = getElements(doc, 'dgm:cxn');
+  for (let i = 0; i < cxnElements.length; i++) {
+    const cxn = cxnElements[i];
+    if ((cxn.getAttribute('type') || 'parOf') !== 'parOf') continue;
+
+    const parent = nodes.get(cxn.getAttribute('srcId') || '');
+    const child = nodes.get(cxn.getAttribute('destId') || '');
+    // The doc point is the root; a link into it would close a cycle
+    if (parent && child && parent !== child && child.id !== rootId) {
+      links.push({ parent, child, order: parseInt(cxn.getAttribute('srcOrd') || '0', 10) || 0 });
+    }
+  }
+  links.sort((a, b) => a.order - b.order);
+
+  // Each point keeps its first parent, and links that would make it its own ancestor are dropped
+  const parentOf = new Map<string, DiagramNode>();
+  for (const { parent, child } of links) {
+    if (parentOf.has(child.id) || isDiagramAncestor(child, parent, parentOf)) continue;
+    parent.children.push(child);
+    parentOf.set(child.id, parent);
+  }
+  const childIds = new Set(parentOf.keys());
+
+  // Points the doc point doesn't reach are kept as extra top-level nodes
+  const root = rootId ? nodes.get(rootId) : undefined;
+  const topLevel = root ? [...root.children] : [];
+  for (const node of nodes.values()) {
+    if (node !== root && !childIds.has(node.id) && (node.text || node.children.length > 0)) {
+      topLevel.push(node);
+    }
+  }
+
+  const diagram: DiagramInfo = { nodes: topLevel, partPath };
+  if (layout) diagram.layout = layout;
+  return diagram;
+}
+
+/**
+ * Helper: Whether `ancestor` is `node` or one of its parents in the tree built so far
+ */
+function isDiagramAncestor(
+  ancestor: DiagramNode,
+  node: DiagramNode,
+  parentOf: Map<string, DiagramNode>
+): boolean {
+  const seen = new Set<string>();
+  let current: DiagramNode | undefined = node;
+  while (current && !seen.has(current.id)) {
+    if (current === ancestor) return true;
+    seen.add(current.id);
+    current = parentOf.get(current.id);
+  }
+  return false;
+}
+
+/**
+ * Helper: Add the text of a diagram tree as paragraphs, nesting depth becoming the outline level
+ */
+function flattenDiagramNodes(
+  nodes: DiagramNode[],
+  level: number,
+  shapeId: number | undefined,
+  into: TextParagraph[],
+  visited = new Set<DiagramNode>()
+): void {
+  for (const node of nodes) {
+    if (visited.has(node)) continue;
+    visited.add(node);
+    for (const line of node.text.split('\n')) {
+      if (!line) continue;
+      const paragraph: TextParagraph = { text: line, level, runs: [{ text: line }] };
+      if (shapeId !== undefined) paragraph.shapeId = shapeId;
+      into.push(paragraph);
+    }
+    flattenDiagramNodes(node.children, level + 1, shapeId, into, visited);
+  }
+}
+
+/**
+ * Comment author from ppt/commentAuthors.xml (legacy) or ppt/authors.xml (modern)
+ */
+interface CommentAuthor {
+  name: string;
+  initials?: string;
+}
+
+/**
+ * Read both author lists; legacy ids are numbers and modern ids are GUIDs, so they share one map
+ */
+async function extractCommentAuthors(zip: JSZip): Promise<Map<string, CommentAuthor>> {
+  const authors = new Map<string, CommentAuthor>();
+
+  for (const [path, tagName] of [['ppt/commentAuthors.xml', 'p:cmAuthor'], ['ppt/authors.xml', 'p188:author']]) {
+    const authorsXml = await zip.file(path)?.async('text');
+    if (!authorsXml) continue;
+
+    const doc = parseXml(authorsXml);
+    const authorElements = getElements(doc, tagName);
+    for (let i = 0; i < authorElements.length; i++) {
+      const id = authorElements[i].getAttribute('id');
+      if (!id) continue;
+      const author: CommentAuthor = { name: authorElements[i].getAttribute('name') || '' };
+      const initials = authorElements[i].getAttribute('initials');
+      if (initials) author.initials = initials;
+      authors.set(id, author);
+    }
+  }
+
+  return authors;
+}
+
+/**
+ * Read the legacy and modern comment parts a slide links to
+ */
+async function extractComments(
+  zip: JSZip,
+  rels: Map<string, Relationship>,
+  authors: Map<string, CommentAuthor>
+): Promise<CommentInfo[]> {
+  const comments: CommentInfo[] = [];
+
+  // Both the legacy and the modern (2018) relationship types end with /comments
+  for (const rel of rels.values()) {
+    if (rel.external || !rel.type.endsWith('/comments')) continue;
+    const commentsXml = await zip.file(rel.target)?.async('text');
+    if (!commentsXml) continue;
+
+    const doc = parseXml(commentsXml);
+    comments.push(...parseLegacyComments(doc, authors), ...parseModernComments(doc, authors));
+  }
+
+  return comments;
+}
+
+/**
+ * Parse legacy comments (p:cmLst/p:cm).
+ * Positions are in master units (576 per inch); replies point at their parent
+ * through p15:threadingInfo/p15:parentCm (author id and comment index).
+ */
+function parseLegacyComments(doc: Document, authors: Map<string, CommentAuthor>): CommentInfo[] {
+  const comments: CommentInfo[] = [];
+  const byKey = new Map<string, CommentInfo>();
+  const replies: { comment: CommentInfo; parentKey: string }[] = [];
+
+  const cmElements = getElements(doc, 'p:cm');
+  for (let i = 0; i < cmElements.length; i++) {
+    const cm = cmElements[i];
+    const authorId = cm.getAttribute('authorId') || '';
+    const comment = createComment(authors.get(authorId), cm.getAttribute('dt'), getChildElement(cm, 'p:text')?.textContent || '');
+
+    const pos = getChildElement(cm, 'p:pos');
+    if (pos) {
+      comment.position = {
+        x: (parseInt(pos.getAttribute('x') || '', 10) || 0) / 8,
+        y: (parseInt(pos.getAttribute('y') || '', 10) || 0) / 8,
+      };
+    }
+
+    byKey.set(`${authorId}:${cm.getAttribute('idx')}`, comment);
+    const parentCm = getElement(cm, 'p15:parentCm');
+    if (parentCm) {
+      replies.push({ comment, parentKey: `${parentCm.getAttribute('authorId')}:${parentCm.getAttribute('idx')}` });
+    } else {
+      comments.push(comment);
+    }
+  }
+
+  // Replies whose parent is gone are kept as top-level comments
+  for (const { comment, parentKey } of replies) {
+    const parent = byKey.get(parentKey);
+    if (parent) {
+      (parent.replies ||= []).push(comment);
+    } else {
+      comments.push(comment);
+    }
+  }
+
+  return comments;
+}
+
+/**
+ * Parse modern threaded comments (p188:cmLst/p188:cm with p188:replyLst).
+ * Positions are in EMU.
+ */
+function parseModernComments(doc: Document, authors: Map<string, CommentAuthor>): CommentInfo[] {
+  const comments: CommentInfo[] = [];
+
+  const cmElements = getElements(doc, 'p188:cm');
+  for (let i = 0; i < cmElements.length; i++) {
+    const cm = cmElements[i];
+    const comment = createComment(
+      authors.get(cm.getAttribute('authorId') || ''),
+      cm.getAttribute('created'),
+      readCommentBody(cm)
+    );
+
+    const pos = getChildElement(cm, 'p188:pos');
+    if (pos) {
+      comment.position = {
+        x: emuToPoints(parseInt(pos.getAttribute('x') || '', 10) || 0),
+        y: emuToPoints(parseInt(pos.getAttribute('y') || '', 10) || 0),
+      };
+    }
+    if (cm.getAttribute('status') === 'resolved') {
+      comment.resolved = true;
+    }
+
+    const replyElements = getElements(getChildElement(cm, 'p188:replyLst'), 'p188:reply');
+    for (let j = 0; j < replyElements.length; j++) {
+      const reply = replyElements[j];
+      (comment.replies ||= []).push(createComment(
+        authors.get(reply.getAttribute('authorId') || ''),
+        reply.getAttribute('created'),
+        readCommentBody(reply)
+      ));
+    }
+
+    comments.push(comment);
+  }
+
+  return comments;
+}
+
+/**
+ * Helper: Build a comment with its author details
+ */
+function createComment(author: CommentAuthor | undefined, date: string | null, text: string): CommentInfo {
+  const comment: CommentInfo = { author: author?.name || 'Unknown', text };
+  if (author?.initials) comment.initials = author.initials;
+  if (date) comment.date = date;
+  return comment;
+}
+
+/**
+ * Helper: Text of a modern comment or reply (p188:txBody)
+ */
+function readCommentBody(element: Element): string {
+  const txBody = getChildElement(element, 'p188:txBody');
+  return txBody ? parseParagraphs(txBody).map(p => p.text).join('\n') : '';
+}
+
+// Placeholder roles of footer, date and slide number text
+const FOOTER_PLACEHOLDERS = new Set(['dt', 'ftr', 'hdr', 'sldNum']);
+
+// Notes placeholders that hold no notes text
+const NOTES_BOILERPLATE = new Set([...FOOTER_PLACEHOLDERS, 'sldImg']);
+
+/**
+ * Parse notes XML
+ */
+function parseNotesXml(xml: string): string {
+  const doc = parseXml(xml);
+  
+  const notes: string[] = [];
+  const spElements = getElements(doc, 'p:sp');
+  for (let i = 0; i < spElements.length; i++) {
+    // Skip the slide number, date, header and footer placeholders
+    const ph = getChildElement(getChildElement(spElements[i].firstElementChild, 'p:nvPr'), 'p:ph');
+    if (ph && NOTES_BOILERPLATE.has(ph.getAttribute('type') || '')) continue;
+
+    const textElements = getElements(spElements[i], 'a:t');
+    for (let j = 0; j < textElements.length; j++) {
+      const text = textElements[j].textContent?.trim();
+      if (text) {
+        notes.push(text);
+      }
+    }
+  }
+  
+  return notes.join('\n');
+}
+
+/**
+ * Extract media files from ppt/media/
+ */
+async function extractMedia(zip: JSZip): Promise<MediaInfo[]> {
+  const media: MediaInfo[] = [];
+  
+  const mediaFolder = zip.folder('ppt/media');
+  if (mediaFolder) {
+    const files: { name: string; file: JSZip.JSZipObject }[] = [];
+    
+    mediaFolder.forEach((relativePath, file) => {
+      if (!file.dir) {
+        files.push({ name: relativePath, file });
+      }
+    });
+
+    for (const { name, file } of files) {
+      const extension = name.split('.').pop()?.toLowerCase() || '';
+      const data = await file.async('base64');
+      const size = (await file.async('uint8array')).length;
+      
+      media.push({
+        name,
+        type: getMediaType(extension),
+        size,
+        data,
+        extension,
+        path: `ppt/media/${name}`,
+      });
+    }
+  }
+  
+  return media;
+}
+
+// Embedded font styles (children of p:embeddedFont)
+const EMBEDDED_FONT_STYLES: Record<string, EmbeddedFontStyle> = {
+  'p:regular': 'regular',
+  'p:bold': 'bold',
+  'p:italic': 'italic',
+  'p:boldItalic': 'boldItalic',
+};
+
+/**
+ * Extract the embedded font list (p:embeddedFontLst) from ppt/presentation.xml;
+ * each style of a font is a separate part in ppt/fonts/
+ */
+async function extractEmbeddedFonts(zip: JSZip): Promise<EmbeddedFontInfo[]> {
+  const fonts: EmbeddedFontInfo[] = [];
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('text');
+  if (!presentationXml) return fonts;
+
+  const doc = parseXml(presentationXml);
+  const fontElements = getElements(doc, 'p:embeddedFont');
+  if (fontElements.length === 0) return fonts;
+
+  const rels = await readRelationships(zip, 'ppt/presentation.xml');
+  for (let i = 0; i < fontElements.length; i++) {
+    const typeface = getChildElement(fontElements[i], 'p:font')?.getAttribute('typeface');
+    if (!typeface) continue;
+
+    const font: EmbeddedFontInfo = { typeface, styles: [] };
+    const parts: string[] = [];
+    for (let child = fontElements[i].firstElementChild; child; child = child.nextElementSibling) {
+      const style = EMBEDDED_FONT_STYLES[elementName(child)];
+      if (!style) continue;
+      font.styles.push(style);
+      const rel = rels.get(getAttribute(child, 'r:id') || '');
+      if (rel && !rel.external) parts.push(rel.target);
+    }
+    if (parts.length > 0) font.parts = parts;
+    fonts.push(font);
+  }
+
+  return fonts;
+}
+
+/**
+ * Extract the VBA project of a macro-enabled file (ppt/vbaProject.bin)
+ */
+async function extractVbaProject(zip: JSZip): Promise<VbaProjectInfo | undefined> {
+  const rels = await readRelationships(zip, 'ppt/presentation.xml');
+  const rel = findRelationshipByType(rels, 'vbaProject');
+  const path = rel && !rel.external ? rel.target : 'ppt/vbaProject.bin';
+
+  const data = await zip.file(path)?.async('uint8array');
+  if (!data) return undefined;
+  return parseVbaProject(data, path) || undefined;
+}
+
+/**
+ * Extract embedded files from ppt/embeddings/ with the slides showing them
+ */
+async function extractEmbeddings(zip: JSZip, slides: SlideContent[]): Promise<EmbeddedObjectInfo[]> {
+  const embeddings: EmbeddedObjectInfo[] = [];
+  const files: { name: string; file: JSZip.JSZipObject }[] = [];
+
+  zip.folder('ppt/embeddings')?.forEach((relativePath, file) => {
+    if (!file.dir) {
+      files.push({ name: relativePath, file });
+    }
+  });
+
+  for (const { name, file } of files) {
+    const path = `ppt/embeddings/${name}`;
+    const refs = slides.flatMap(slide =>
+      (slide.objects || [])
+        .filter(object => object.partPath === path)
+        .map(object => ({ object, slideNumber: slide.slideNumber }))
+    );
+    const data = await file.async('uint8array');
+
+    embeddings.push(await createEmbeddedObject(data, {
+      name,
+      path,
+      progId: refs.find(ref => ref.object.progId)?.object.progId,
+      slides: [...new Set(refs.map(ref => ref.slideNumber))],
+    }));
+  }
+
+  return embeddings;
+}
+
+/**
+ * Helper: Classify a media file by its extension
+ */
+function getMediaType(extension: string): string {
+  if (['jpg', 'jpeg', 'png', 'gif', 'bmp', 'tiff', 'webp'].includes(extension)) {
+    return 'image';
+  } else if (['mp4', 'avi', 'mov', 'wmv', 'webm'].includes(extension)) {
+    return 'video';
+  } else if (['mp3', 'wav', 'ogg', 'wma', 'm4a'].includes(extension)) {
+    return 'audio';
+  }
+  return 'unknown';
+}
+
+/**
+ * Extract theme information
+ */
+async function extractThemes(zip: JSZip): Promise<ThemeInfo[]> {
+  const themes: ThemeInfo[] = [];
+  const themeFiles: string[] = [];
+  
+  zip.forEach((path) => {
+    // ppt/theme/ in presentations, theme/theme/ in Office themes (.thmx)
+    if (path.match(/(^|\/)theme\/theme\d+\.xml$/)) {
+      themeFiles.push(path);
+    }
+  });
+
+  for (const themePath of themeFiles) {
+    const themeXml = await zip.file(themePath)?.async('text');
+    if (themeXml) {
+      const doc = parseXml(themeXml);
+      
+      const name = getElement(doc, 'a:theme')?.getAttribute('name') || 'Theme';
+      const clrScheme = getElement(doc, 'a:clrScheme');
+      const theme: ThemeInfo = {
+        name,
+        partPath: themePath,
+        colors: readColorScheme(clrScheme),
+        fonts: {},
+      };
+      const colorSchemeName = clrScheme?.getAttribute('name');
+      if (colorSchemeName) theme.colorScheme = colorSchemeName;
+      
+      // Extract font scheme
+      const fontScheme = getElement(doc, 'a:fontScheme');
+      if (fontScheme) {
+        const fontSchemeName = fontScheme.getAttribute('name');
+        if (fontSchemeName) theme.fontScheme = fontSchemeName;
+        
+        const majorFont = getElement(fontScheme, 'a:majorFont');
+        const minorFont = getElement(fontScheme, 'a:minorFont');
+        // Empty typefaces mean the scheme leaves the script to the application
+        const read = (font: Element | null, script: string) =>
+          getChildElement(font, script)?.getAttribute('typeface') || undefined;
+        const fonts: ThemeFonts = {
+          major: read(majorFont, 'a:latin'),
+          minor: read(minorFont, 'a:latin'),
+          majorEastAsian: read(majorFont, 'a:ea'),
+          minorEastAsian: read(minorFont, 'a:ea'),
+          majorComplexScript: read(majorFont, 'a:cs'),
+          minorComplexScript: read(minorFont, 'a:cs'),
+        };
+        for (const [key, typeface] of Object.entries(fonts) as [keyof ThemeFonts, string | undefined][]) {
+          if (typeface) theme.fonts[key] = typeface;
+        }
+      }
+      
+      themes.push(theme);
+    }
+  }
+  
+  return themes;
+}
+
+/**
+ * Resolve the color inheritance chain of every layout: the master's p:clrMap and theme,
+ * then the layout's p:clrMapOvr. Backgrounds are inherited the same way.
+ * Keyed by layout part path.
+ */
+async function extractThemeStyles(
+  zip: JSZip,
+  masters: MasterInfo[],
+  themes: ThemeInfo[],
+  media: MediaInfo[]
+): Promise<Map<string, ThemeStyle>> {
+  const styles = new Map<string, ThemeStyle>();
+  const mediaByPath = new Map(media.map(m => [m.path || m.name, m]));
+
+  for (const master of masters) {
+    const masterXml = master.partPath ? await zip.file(master.partPath)?.async('text') : undefined;
+    if (!master.partPath || !masterXml) continue;
+
+    const doc = parseXml(masterXml);
+    const rels = await readRelationships(zip, master.partPath);
+    const themeRel = findRelationshipByType(rels, 'theme');
+    const themeXml = themeRel ? await zip.file(themeRel.target)?.async('text') : undefined;
+    const themeDoc = themeXml ? parseXml(themeXml) : undefined;
+
+    const backgroundFills: Element[] = [];
+    const bgFillStyleLst = getElement(themeDoc, 'a:bgFillStyleLst');
+    for (let child = bgFillStyleLst?.firstElementChild; child; child = child.nextElementSibling) {
+      backgroundFills.push(child);
+    }
+
+    const theme = themes.find(theme => theme.partPath === themeRel?.target);
+    const masterStyle: ThemeStyle = {
+      colors: {
+        scheme: theme?.colors || readColorScheme(getElement(themeDoc, 'a:clrScheme')),
+        colorMap: readColorMap(getElement(doc, 'p:clrMap')),
+      },
+      fonts: theme?.fonts || {},
+      backgroundFills,
+    };
+    masterStyle.background = readBackground(doc, masterStyle, rels, mediaByPath, 'master');
+
+    for (const layout of master.layouts) {
+      const layoutXml = layout.partPath ? await zip.file(layout.partPath)?.async('text') : undefined;
+      if (!layout.partPath || !layoutXml) continue;
+
+      const layoutDoc = parseXml(layoutXml);
+      const layoutRels = await readRelationships(zip, layout.partPath);
+      const layoutStyle: ThemeStyle = { ...masterStyle, colors: readPartColors(layoutDoc, masterStyle.colors) };
+      layoutStyle.background = readBackground(layoutDoc, layoutStyle, layoutRels, mediaByPath, 'layout')
+        || masterStyle.background;
+      styles.set(layout.partPath, layoutStyle);
+    }
+  }
+
+  return styles;
+}
+
+/**
+ * Colors of a layout or slide: p:clrMapOvr replaces the inherited color map,
+ * unless it holds a:masterClrMapping
+ */
+function readPartColors(doc: Document, inherited: ColorContext): ColorContext {
+  const override = getChildElement(getChildElement(doc.documentElement, 'p:clrMapOvr'), 'a:overrideClrMapping');
+  return override ? { ...inherited, colorMap: readColorMap(override, inherited.colorMap) } : inherited;
+}
+
+/**
+ * Read a part's own background (p:cSld/p:bg): p:bgPr with a fill,
+ * or p:bgRef pointing at a theme background fill colored with its own color
+ */
+function readBackground(
+  doc: Document,
+  style: ThemeStyle,
+  rels: Map<string, Relationship>,
+  mediaByPath: Map<string, MediaInfo>,
+  source: BackgroundInfo['source']
+): BackgroundInfo | undefined {
+  const bg = getChildElement(getChildElement(doc.documentElement, 'p:cSld'), 'p:bg');
+  if (!bg) return undefined;
+
+  const bgPr = getChildElement(bg, 'p:bgPr');
+  for (let child = bgPr?.firstElementChild; child; child = child.nextElementSibling) {
+    const fill = readFill(child, style.colors, rels, mediaByPath);
+    if (fill) return { ...fill, source };
+  }
+
+  const bgRef = getChildElement(bg, 'p:bgRef');
+  if (bgRef) {
+    const idx = parseInt(bgRef.getAttribute('idx') || '0', 10);
+    const placeholder = resolveColor(bgRef, style.colors);
+    const themeFill = idx > 1000 ? style.backgroundFills[idx - 1001] : undefined;
+    const fill = themeFill ? readFill(themeFill, { ...style.colors, placeholder }) : undefined;
+    if (fill) return { ...fill, source };
+    if (placeholder) return { type: 'solid', color: placeholder, source };
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a fill element (a:solidFill, a:gradFill, a:blipFill, a:pattFill, a:noFill).
+ * Returns undefined for anything else, so callers can scan a property list.
+ */
+function readFill(
+  element: Element,
+  colors?: ColorContext,
+  rels?: Map<string, Relationship>,
+  mediaByPath?: Map<string, MediaInfo>
+): Omit<BackgroundInfo, 'source'> | undefined {
+  switch (elementName(element)) {
+    case 'a:solidFill': {
+      const color = resolveColor(element, colors);
+      return color ? { type: 'solid', color } : undefined;
+    }
+    case 'a:gradFill': {
+      const stops: string[] = [];
+      const gsElements = getElements(getChildElement(element, 'a:gsLst'), 'a:gs');
+      for (let i = 0; i < gsElements.length; i++) {
+        const color = resolveColor(gsElements[i], colors);
+        if (color) stops.push(color);
+      }
+      return stops.length > 0 ? { type: 'gradient', color: stops[0], colors: stops } : { type: 'gradient' };
+    }
+    case 'a:blipFill': {
+      const rel = rels?.get(getAttribute(getChildElement(element, 'a:blip'), 'r:embed') || '');
+      const image = rel ? mediaByPath?.get(rel.target)?.name : undefined;
+      return image ? { type: 'image', image } : { type: 'image' };
+    }
+    case 'a:pattFill': {
+      const color = resolveColor(getChildElement(element, 'a:fgClr'), colors);
+      return color ? { type: 'pattern', color } : { type: 'pattern' };
+    }
+    case 'a:noFill':
+      return { type: 'none' };
+  }
+  return undefined;
+}
+
+/**
+ * Extract slide masters and their layouts.
+ * Masters come in p:sldMasterIdLst order and layouts in each master's p:sldLayoutIdLst order;
+ * the slides using each layout are filled in by extractSlides.
+ */
+async function extractMasters(zip: JSZip): Promise<MasterInfo[]> {
+  const masters: MasterInfo[] = [];
+
+  const masterPaths: string[] = [];
+  const presentationXml = await zip.file('ppt/presentation.xml')?.async('text');
+  if (presentationXml) {
+    const doc = parseXml(presentationXml);
+    const rels = await readRelationships(zip, 'ppt/presentation.xml');
+    const masterIds = getElements(doc, 'p:sldMasterId');
+    for (let i = 0; i < masterIds.length; i++) {
+      const rel = rels.get(getAttribute(masterIds[i], 'r:id') || '');
+      if (rel && !rel.external && zip.file(rel.target)) {
+        masterPaths.push(rel.target);
+      }
+    }
+  }
+
+  // Fallback: sort by the number in the file name
+  if (masterPaths.length === 0) {
+    const files: { path: string; num: number }[] = [];
+    zip.forEach((path) => {
+      const match = path.match(/ppt\/slideMasters\/slideMaster(\d+)\.xml$/);
+      if (match) {
+        files.push({ path, num: parseInt(match[1], 10) });
+      }
+    });
+    files.sort((a, b) => a.num - b.num);
+    masterPaths.push(...files.map(({ path }) => path));
+  }
+
+  for (let i = 0; i < masterPaths.length; i++) {
+    const masterXml = await zip.file(masterPaths[i])?.async('text');
+    if (!masterXml) continue;
+
+    const doc = parseXml(masterXml);
+    const rels = await readRelationships(zip, masterPaths[i]);
+
+    // The theme name stands in for the master name, as in PowerPoint's UI
+    const themeRel = findRelationshipByType(rels, 'theme');
+    const themeXml = themeRel ? await zip.file(themeRel.target)?.async('text') : undefined;
+    const theme = themeXml
+      ? getElement(parseXml(themeXml), 'a:theme')?.getAttribute('name') || undefined
+      : undefined;
+
+    const master: MasterInfo = {
+      name: getSlideName(doc) || theme || `Master Slide ${i + 1}`,
+      partPath: masterPaths[i],
+      placeholders: readPlaceholders(doc),
+      layouts: [],
+    };
+    if (theme) master.theme = theme;
+
+    const layoutIds = getElements(doc, 'p:sldLayoutId');
+    for (let j = 0; j < layoutIds.length; j++) {
+      const rel = rels.get(getAttribute(layoutIds[j], 'r:id') || '');
+      const layoutXml = rel && !rel.external ? await zip.file(rel.target)?.async('text') : undefined;
+      if (!rel || !layoutXml) continue;
+
+      const layoutDoc = parseXml(layoutXml);
+      const layout: LayoutInfo = {
+        name: getSlideName(layoutDoc) || `Layout ${master.layouts.length + 1}`,
+        partPath: rel.target,
+        placeholders: readPlaceholders(layoutDoc),
+        slides: [],
+      };
+      const type = layoutDoc.documentElement.getAttribute('type');
+      if (type) layout.type = type;
+      master.layouts.push(layout);
+    }
+
+    masters.push(master);
+  }
+
+  return masters;
+}
+
+/**
+ * Helper: Name of a slide, layout or master (p:cSld name)
+ */
+function getSlideName(doc: Document): string {
+  return getElement(doc, 'p:cSld')?.getAttribute('name')?.trim() || '';
+}
+
+/**
+ * Helper: List the placeholders (p:ph) of a slide, layout or master
+ */
+function readPlaceholders(doc: Document): PlaceholderInfo[] {
+  const placeholders: PlaceholderInfo[] = [];
+  const phElements = getElements(doc, 'p:ph');
+
+  for (let i = 0; i < phElements.length; i++) {
+    const ph = phElements[i];
+    if (findParentWithTag(ph, 'mc:Fallback')) continue;
+
+    // ST_PlaceholderType defaults to obj
+    const placeholder: PlaceholderInfo = { type: ph.getAttribute('type') || 'obj' };
+    const idx = parseInt(ph.getAttribute('idx') || '', 10);
+    if (!isNaN(idx)) placeholder.index = idx;
+    const name = getChildElement(ph.parentElement?.parentElement, 'p:cNvPr')?.getAttribute('name');
+    if (name) placeholder.name = name;
+    placeholders.push(placeholder);
+  }
+
+  return placeholders;
+}
+
+/**
+ * Extract custom properties
+ */
+async function extractCustomProperties(zip: JSZip): Promise<Record<string, string>> {
+  const props: Record<string, string> = {};
+  
+  const customXml = await zip.file('docProps/custom.xml')?.async('text');
+  if (customXml) {
+    const doc = parseXml(customXml);
+    
+    const properties = getElements(doc, 'op:property');
+    for (let i = 0; i < properties.length; i++) {
+      const name = properties[i].getAttribute('name');
+      const value = properties[i].textContent;
+      if (name && value) {
+        props[name] = value;
+      }
+    }
+  }
+  
+  return props;
+}
+
+interface Relationship {
+  id: string;
+  type: string;
+  /** Absolute part path inside the package, or the raw target for external links */
+  target: string;
+  external: boolean;
+}
+
+/**
+ * Read the relationships of a package part (e.g. ppt/slides/_rels/slide1.xml.rels)
+ */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const rels = new Map<string, Relationship>();
+  const slash = partPath.lastIndexOf('/');
+  const dir = partPath.substring(0, slash + 1);
+  const relsPath = `${dir}_rels/${partPath.substring(slash + 1)}.rels`;
+
+  const relsXml = await zip.file(relsPath)?.async('text');
+  if (!relsXml) return rels;
+
+  const doc = parseXml(relsXml);
+  const relElements = getElements(doc, 'rel:Relationship');
+  for (let i = 0; i < relElements.length; i++) {
+    const id = relElements[i].getAttribute('Id');
+    const target = relElements[i].getAttribute('Target');
+    if (!id || !target) continue;
+
+    const external = relElements[i].getAttribute('TargetMode') === 'External';
+    rels.set(id, {
+      id,
+      type: relElements[i].getAttribute('Type') || '',
+      target: external ? target : resolvePartPath(dir, target),
+      external,
+    });
+  }
+
+  return rels;
+}
+
+/**
+ * Helper: Find the first relationship whose type ends with the given name
+ */
+function findRelationshipByType(rels: Map<string, Relationship>, typeName: string): Relationship | undefined {
+  for (const rel of rels.values()) {
+    if (rel.type.endsWith(`/${typeName}`)) return rel;
+  }
+  return undefined;
+}
+
+/**
+ * Helper: Resolve a relationship target against the directory of its source part
+ */
+function resolvePartPath(baseDir: string, target: string): string {
+  const segments = target.startsWith('/') ? [] : baseDir.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+
+
+/**
+ * Helper: Read an xsd:boolean attribute value
+ */
+function isTrue(value: string | null): boolean {
+  return value === '1' || value === 'true';
+}
+
@@ -0,0 +1,235 @@
+/**
+ * VBA projects - Read module names and source code of a VBA project (MS-OVBA)
+ *
+ * The compressed "VBA/dir" stream describes the project and its modules. Each
+ * module stream holds compiled code followed by the compressed source, which
+ * starts at the module's text offset.
+ */
+
+import * as CFB from 'cfb';
+import type { VbaProjectInfo, VbaModuleInfo } from '../types';
+import { getStreamData } from './compoundFile';
+
+// dir stream record ids
+const DirRecord = {
+  PROJECTCODEPAGE: 0x0003,
+  PROJECTNAME: 0x0004,
+  PROJECTVERSION: 0x0009,
+  MODULENAME: 0x0019,
+  MODULESTREAMNAME: 0x001A,
+  MODULETYPE_PROCEDURAL: 0x0021,
+  MODULETYPE_CLASS: 0x0022,
+  MODULE_TERMINATOR: 0x002B,
+  MODULEOFFSET: 0x0031,
+  MODULESTREAMNAMEUNICODE: 0x0032,
+  MODULENAMEUNICODE: 0x0047,
+};
+
+// Procedures the host application runs without the user starting them
+const AUTO_EXEC_PROCEDURES = [
+  'Auto_Open', 'Auto_Close', 'AutoOpen', 'AutoClose', 'AutoExec', 'AutoNew',
+  'Document_Open', 'Workbook_Open', 'OnSlideShowPageChange', 'OnSlideShowTerminate',
+];
+
+// Code pages TextDecoder knows by another name than windows-<codepage>
+const CODEPAGE_ENCODINGS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  10000: 'macintosh',
+  65001: 'utf-8',
+};
+
+interface PendingModule {
+  name: string;
+  streamName: string;
+  type: VbaModuleInfo['type'];
+  textOffset: number;
+}
+
+/**
+ * Read a VBA project stored as a compound file of its own
+ * (ppt/vbaProject.bin, or the VBAInfo storage of a .ppt)
+ */
+export function parseVbaProject(data: Uint8Array, source: string): VbaProjectInfo | null {
+  try {
+    return readVbaProject(CFB.read(data, { type: 'array' }), source);
+  } catch (error) {
+    console.warn(`Could not read VBA project ${source}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Read the VBA project in a storage of a compound file; storage is the path
+ * prefix, e.g. "_VBA_PROJECT_CUR/". Null when there is no project.
+ */
+export function readVbaProject(cfb: CFB.CFBContainer, source: string, storage = ''): VbaProjectInfo | null {
+  const dirData = getStreamData(cfb, `${storage}VBA/dir`);
+  if (!dirData) return null;
+
+  let dir: Uint8Array;
+  try {
+    dir = decompress(dirData);
+  } catch (error) {
+    console.warn(`Could not decompress the VBA dir stream of ${source}:`, error);
+    return null;
+  }
+
+  const project: VbaProjectInfo = { source, modules: [], autoExec: [] };
+  const view = new DataView(dir.buffer, dir.byteOffset, dir.byteLength);
+  let decoder = new TextDecoder('windows-1252');
+  let module: PendingModule | null = null;
+  let pos = 0;
+
+  while (pos + 6 <= dir.length) {
+    const id = view.getUint16(pos, true);
+    const size = view.getUint32(pos + 2, true);
+    pos += 6;
+    // PROJECTVERSION declares 4 bytes but holds 6
+    const length = id === DirRecord.PROJECTVERSION ? 6 : size;
+    if (pos + length > dir.length) break;
+    const data = dir.subarray(pos, pos + length);
+    pos += length;
+
+    switch (id) {
+      case DirRecord.PROJECTCODEPAGE:
+        if (length >= 2) decoder = createDecoder(view.getUint16(pos - length, true));
+        break;
+      case DirRecord.PROJECTNAME:
+        project.name = decoder.decode(data);
+        break;
+      case DirRecord.MODULENAME:
+        module = { name: decoder.decode(data), streamName: decoder.decode(data), type: 'standard', textOffset: 0 };
+        break;
+      case DirRecord.MODULENAMEUNICODE:
+        if (module && length > 0) module.name = new TextDecoder('utf-16le').decode(data);
+        break;
+      case DirRecord.MODULESTREAMNAME:
+        if (module) module.streamName = decoder.decode(data);
+        break;
+      case DirRecord.MODULESTREAMNAMEUNICODE:
+        if (module && length > 0) module.streamName = new TextDecoder('utf-16le').decode(data);
+        break;
+      case DirRecord.MODULETYPE_CLASS:
+        if (module) module.type = 'class';
+        break;
+      case DirRecord.MODULEOFFSET:
+        if (module && length >= 4) module.textOffset = view.getUint32(pos - length, true);
+        break;
+      case DirRecord.MODULE_TERMINATOR:
+        if (module) {
+          const info = readModule(cfb, storage, module, decoder);
+          project.modules.push(info);
+          for (const procedure of info.autoExec || []) {
+            project.autoExec.push(`${info.name}.${procedure}`);
+          }
+        }
+        module = null;
+        break;
+    }
+  }
+
+  return project;
+}
+
+/**
+ * Decompress a module's source and look for auto-exec procedures
+ */
+function readModule(
+  cfb: CFB.CFBContainer,
+  storage: string,
+  module: PendingModule,
+  decoder: TextDecoder
+): VbaModuleInfo {
+  const info: VbaModuleInfo = { name: module.name, type: module.type };
+  const data = getStreamData(cfb, `${storage}VBA/${module.streamName}`);
+  if (!data || module.textOffset >= data.length) return info;
+
+  try {
+    info.code = decoder.decode(decompress(data.subarray(module.textOffset)));
+  } catch (error) {
+    console.warn(`Could not decompress VBA module ${module.name}:`, error);
+    return info;
+  }
+
+  const autoExec = findAutoExecProcedures(info.code);
+  if (autoExec.length > 0) info.autoExec = autoExec;
+  return info;
+}
+
+/**
+ * Names of the auto-exec procedures declared in VBA source
+ */
+function findAutoExecProcedures(code: string): string[] {
+  const found: string[] = [];
+  const declaration = /^[ \t]*(?:(?:Public|Private|Friend)[ \t]+)?(?:Static[ \t]+)?(?:Sub|Function)[ \t]+(\w+)/gim;
+
+  for (const match of code.matchAll(declaration)) {
+    const name = AUTO_EXEC_PROCEDURES.find(procedure => procedure.toLowerCase() === match[1].toLowerCase());
+    if (name && !found.includes(name)) found.push(name);
+  }
+  return found;
+}
+
+/**
+ * Decompress a CompressedContainer (MS-OVBA 2.4.1): a signature byte, then chunks
+ * of up to 4096 bytes, each raw or a sequence of literal bytes and copy tokens
+ */
+function decompress(data: Uint8Array): Uint8Array {
+  if (data[0] !== 0x01) throw new Error('Invalid compressed container signature');
+
+  const out: number[] = [];
+  let pos = 1;
+
+  while (pos + 2 <= data.length) {
+    const header = data[pos] | (data[pos + 1] << 8);
+    const chunkEnd = Math.min(pos + (header & 0x0FFF) + 3, data.length);
+    const compressed = (header & 0x8000) !== 0;
+    const chunkStart = out.length;
+    pos += 2;
+
+    if (!compressed) {
+      while (pos < chunkEnd) out.push(data[pos++]);
+      continue;
+    }
+
+    while (pos < chunkEnd) {
+      const flags = data[pos++];
+      for (let bit = 0; bit < 8 && pos < chunkEnd; bit++) {
+        if ((flags & (1 << bit)) === 0) {
+          out.push(data[pos++]);
+          continue;
+        }
+        if (pos + 2 > chunkEnd) {
+          pos = chunkEnd;
+          break;
+        }
+
+        // Copy token: offset and length share 16 bits, split by how far into the chunk we are
+        const token = data[pos] | (data[pos + 1] << 8);
+        pos += 2;
+        const bitCount = Math.max(Math.ceil(Math.log2(out.length - chunkStart)), 4);
+        const length = (token & (0xFFFF >> bitCount)) + 3;
+        const offset = (token >> (16 - bitCount)) + 1;
+        const copyFrom = out.length - offset;
+        if (copyFrom < chunkStart) throw new Error('Invalid copy token');
+        for (let i = 0; i < length; i++) out.push(out[copyFrom + i]);
+      }
+    }
+  }
+
+  return Uint8Array.from(out);
+}
+
+/**
+ * Helper: Text decoder for a project code page, falling back to Windows-1252
+ */
+function createDecoder(codepage: number): TextDecoder {
+  try {
+    return new TextDecoder(CODEPAGE_ENCODINGS[codepage] || `windows-${codepage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * XML access - Find Open XML elements and attributes by namespace
+ *
+ * Lookups use canonical prefixed names like "a:t" or "r:id". The prefix stands
+ * for a namespace, not for the prefix in the document, so files that bind other
+ * prefixes work too. ISO 29500 Strict documents use purl.oclc.org namespaces,
+ * listed next to their Transitional counterparts.
+ */
+
+// Canonical prefix to namespace URIs: Transitional first, then Strict
+const NAMESPACES: Record<string, string[]> = {
+  // Package parts and document properties
+  ct: ['http://schemas.openxmlformats.org/package/2006/content-types'],
+  rel: ['http://schemas.openxmlformats.org/package/2006/relationships'],
+  cp: ['http://schemas.openxmlformats.org/package/2006/metadata/core-properties'],
+  dc: ['http://purl.org/dc/elements/1.1/'],
+  dcterms: ['http://purl.org/dc/terms/'],
+  ep: [
+    'http://schemas.openxmlformats.org/officeDocument/2006/extended-properties',
+    'http://purl.oclc.org/ooxml/officeDocument/extendedProperties',
+  ],
+  op: [
+    'http://schemas.openxmlformats.org/officeDocument/2006/custom-properties',
+    'http://purl.oclc.org/ooxml/officeDocument/customProperties',
+  ],
+  vt: [
+    'http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes',
+    'http://purl.oclc.org/ooxml/officeDocument/docPropsVTypes',
+  ],
+  mc: ['http://schemas.openxmlformats.org/markup-compatibility/2006'],
+
+  // PresentationML and DrawingML
+  p: [
+    'http://schemas.openxmlformats.org/presentationml/2006/main',
+    'http://purl.oclc.org/ooxml/presentationml/main',
+  ],
+  a: [
+    'http://schemas.openxmlformats.org/drawingml/2006/main',
+    'http://purl.oclc.org/ooxml/drawingml/main',
+  ],
+  r: [
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+    'http://purl.oclc.org/ooxml/officeDocument/relationships',
+  ],
+  c: [
+    'http://schemas.openxmlformats.org/drawingml/2006/chart',
+    'http://purl.oclc.org/ooxml/drawingml/chart',
+  ],
+  dgm: [
+    'http://schemas.openxmlformats.org/drawingml/2006/diagram',
+    'http://purl.oclc.org/ooxml/drawingml/diagram',
+  ],
+  m: [
+    'http://schemas.openxmlformats.org/officeDocument/2006/math',
+    'http://purl.oclc.org/ooxml/officeDocument/math',
+  ],
+
+  // Office extensions, the same in both conformance classes
+  p14: ['http://schemas.microsoft.com/office/powerpoint/2010/main'],
+  p15: ['http://schemas.microsoft.com/office/powerpoint/2012/main'],
+  p188: ['http://schemas.microsoft.com/office/powerpoint/2018/8/main'],
+  a14: ['http://schemas.microsoft.com/office/drawing/2010/main'],
+  adec: ['http://schemas.microsoft.com/office/drawing/2017/decorative'],
+};
+
+// Namespace URI to canonical prefix
+const PREFIXES = new Map(
+  Object.entries(NAMESPACES).flatMap(([prefix, uris]) => uris.map(uri => [uri, prefix] as const))
+);
+
+/**
+ * Parse an XML part
+ */
+export function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'text/xml');
+}
+
+/**
+ * Canonical name of an element, e.g. "a:srgbClr" whatever prefix the document
+ * binds; elements of other namespaces keep their tag name
+ */
+export function elementName(element: Element): string {
+  const prefix = element.namespaceURI ? PREFIXES.get(element.namespaceURI) : undefined;
+  return prefix ? `${prefix}:${element.localName}` : element.tagName;
+}
+
+/**
+ * All descendant elements with a canonical name, in document order.
+ * Names without a prefix match the tag name.
+ */
+export function getElements(parent: Document | Element | null | undefined, name: string): Element[] {
+  if (!parent) return [];
+  const { uris, localName } = resolveName(name);
+  if (!uris) return Array.from(parent.getElementsByTagName(name));
+  return uris.flatMap(uri => Array.from(parent.getElementsByTagNameNS(uri, localName)));
+}
+
+/**
+ * First descendant element with a canonical name
+ */
+export function getElement(parent: Document | Element | null | undefined, name: string): Element | null {
+  return getElements(parent, name)[0] || null;
+}
+
+/**
+ * Helper: Find the first direct child element with a canonical name
+ */
+export function getChildElement(parent: Element | null | undefined, name: string): Element | null {
+  if (!parent) return null;
+  for (let child = parent.firstElementChild; child; child = child.nextElementSibling) {
+    if (elementName(child) === name) {
+      return child;
+    }
+  }
+  return null;
+}
+
+/**
+ * Helper: Find the nearest ancestor with a canonical name
+ */
+export function findParentWithTag(element: Element, name: string): Element | null {
+  let current = element.parentElement;
+  while (current) {
+    if (elementName(current) === name) {
+      return current;
+    }
+    current = current.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Attribute value; prefixed names like "r:id" are looked up by namespace
+ */
+export function getAttribute(element: Element | null | undefined, name: string): string | null {
+  if (!element) return null;
+  const { uris, localName } = resolveName(name);
+  if (!uris) return element.getAttribute(name);
+
+  for (const uri of uris) {
+    if (element.hasAttributeNS(uri, localName)) return element.getAttributeNS(uri, localName);
+  }
+  return null;
+}
+
+/**
+ * Helper: Text of the first element with a canonical name
+ */
+export function getTextContent(doc: Document, name: string): string {
+  return getElement(doc, name)?.textContent || '';
+}
+
+/**
+ * Helper: Namespaces and local name of a canonical name; no namespaces when unprefixed
+ */
+function resolveName(name: string): { uris?: string[]; localName: string } {
+  const colon = name.indexOf(':');
+  if (colon < 0) return { localName: name };
+  return { uris: NAMESPACES[name.substring(0, colon)], localName: name.substring(colon + 1) };
+}
@@ -27,6 +27,7 @@ declare module 'cfb' {
   }
 
   export function read(data: Uint8Array | ArrayBuffer, options?: { type?: string }): CFBContainer;
+  export function find(cfb: CFBContainer, path: string): CFBEntry | null;
 }
 
 declare module 'codepage' {
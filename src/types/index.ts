@@ -10,27 +10,356 @@ export interface SlideContent {
   shapes: ShapeInfo[];
   images: MediaInfo[];
   tables: TableInfo[];
+  /** Text as paragraphs and formatted runs, in reading order; textContent is derived from it */
+  paragraphs?: TextParagraph[];
+  /** Top-level elements of the slide's shape tree in z-order (back to front), groups keep their children */
+  shapeTree?: ShapeInfo[];
+  /** Package part the slide was read from, e.g. "ppt/slides/slide3.xml" (PPTX only) */
+  partPath?: string;
+  /** Slide id (p:sldIdLst in PPTX, SlidePersistAtom in PPT) */
+  slideId?: number;
+  /** Hidden from the slide show (show="0" in PPTX, fHidden in PPT) */
+  hidden?: boolean;
+  /** Name of the section the slide belongs to (PPTX only) */
+  section?: string;
+  /** Hyperlinks and click/mouse-over actions on runs and shapes */
+  links?: LinkInfo[];
+  /** Charts in graphic frames, with their cached data (PPTX only) */
+  charts?: ChartInfo[];
+  /** SmartArt diagrams as point trees (PPTX only); their text is also part of paragraphs */
+  diagrams?: DiagramInfo[];
+  /** Review comments, each with its replies */
+  comments?: CommentInfo[];
+  /** OLE object frames; the objects themselves are listed in ExtractedPresentation.embeddings */
+  objects?: EmbeddedObjectRef[];
+  /** Video and audio played on the slide, embedded or linked */
+  media?: MediaUsage[];
+  /** Background in effect for the slide */
+  background?: BackgroundInfo;
+  /** Transition into the slide and its advance settings */
+  transition?: TransitionInfo;
+  /** Animation build sequence in playback order */
+  animations?: AnimationStep[];
+  /** Name of the layout the slide is based on (for PPT, the name of its SlideLayoutType) */
+  layout?: string;
+  /** Name of the master the slide's layout belongs to */
+  master?: string;
 }
 
 export interface ShapeInfo {
   type: string;
   text: string;
+  kind?: ShapeKind;
+  /** Shape id and name (p:cNvPr in PPTX, OfficeArtFSp spid and wzName in PPT) */
+  id?: number;
+  name?: string;
+  /** Alternative text (descr in PPTX, wzDescription in PPT) */
+  altText?: string;
+  /** Title of the alternative text (PPTX only) */
+  title?: string;
+  /** Marked as decorative, so screen readers skip it (adec:decorative, PPTX only) */
+  decorative?: boolean;
+  /**
+   * Offset from the top-left corner of the slide, in points (1/72 inch).
+   * Offsets and scaling of enclosing groups are applied; their rotation is not.
+   */
   position?: { x: number; y: number };
+  /** Extent in points, in slide space like position */
   size?: { width: number; height: number };
+  /** Transform as stored in the file, in EMU and in the coordinate space of the parent group */
+  transform?: ShapeTransform;
+  /** Coordinate space of a group's children (a:chOff/a:chExt), in EMU */
+  childSpace?: { x: number; y: number; width: number; height: number };
+  /** Members of a group in z-order (back to front) */
+  children?: ShapeInfo[];
+  /** Fill color as hex (the first stop of gradient fills), with theme colors resolved */
+  fill?: string;
+  /**
+   * Placeholder role (p:ph type: title, body, ftr, dt, sldNum, subTitle, obj, ...);
+   * placeholders that only give an idx take the type of the layout placeholder (PPTX only)
+   */
+  placeholder?: string;
 }
 
+export type ShapeKind = 'shape' | 'picture' | 'graphicFrame' | 'connector' | 'group';
+
+/**
+ * Shape transform in EMU (English Metric Units: 914400 per inch, 12700 per point).
+ * PPTX stores EMU directly; PPT master units (576 per inch) are scaled by 1587.5.
+ */
+export interface ShapeTransform {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Clockwise rotation in degrees */
+  rotation: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+export interface TextParagraph {
+  text: string;
+  /** Outline level, 0 for top-level paragraphs (a:pPr lvl in PPTX, indent level in PPT) */
+  level: number;
+  /** Bullet set on the paragraph itself; bullets inherited from layouts and masters are not resolved */
+  bullet?: BulletInfo;
+  runs: TextRun[];
+  /** Id of the shape holding the paragraph */
+  shapeId?: number;
+  /** Placeholder role of that shape, see ShapeInfo.placeholder (PPTX only) */
+  placeholder?: string;
+}
+
+export interface BulletInfo {
+  type: 'char' | 'autoNumber' | 'picture' | 'none';
+  char?: string;
+  /** Autonumber scheme, e.g. "arabicPeriod" */
+  scheme?: string;
+  startAt?: number;
+}
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  /** Latin typeface (a:latin in PPTX); theme font references are resolved */
+  font?: string;
+  /** East Asian and complex script typefaces (a:ea, a:cs; PPTX only) */
+  eastAsianFont?: string;
+  complexScriptFont?: string;
+  /** Font size in points */
+  size?: number;
+  /** Hex color, e.g. "#1F4E79" */
+  color?: string;
+  lang?: string;
+  /** Equation (a14:m math zone, PPTX only); text holds its LaTeX between $ or $$ delimiters */
+  math?: MathInfo;
+}
+
+export interface MathInfo {
+  /** LaTeX without delimiters */
+  latex: string;
+  /** MathML <math> element */
+  mathml: string;
+  /** Display equation on its own line (m:oMathPara) rather than inline */
+  display?: boolean;
+}
+
+export interface LinkInfo {
+  /** Anchor text: the linked run, or the whole shape's text for shape-level actions */
+  text: string;
+  action: LinkAction;
+  /** URL, file or program path; macro name or custom show id for those actions */
+  target?: string;
+  /** Destination slide number for 'slide' jumps */
+  targetSlide?: number;
+  tooltip?: string;
+  /** True for mouse-over actions, false or absent for click actions */
+  hover?: boolean;
+  /** Id of the shape carrying the link */
+  shapeId?: number;
+}
+
+export type LinkAction =
+  | 'url'
+  | 'slide'
+  | 'firstSlide'
+  | 'lastSlide'
+  | 'nextSlide'
+  | 'previousSlide'
+  | 'lastSlideViewed'
+  | 'endShow'
+  | 'customShow'
+  | 'file'
+  | 'program'
+  | 'macro'
+  | 'ole'
+  | 'media';
+
+export interface ChartInfo {
+  /** Plot type, e.g. "column", "bar", "line", "pie", "scatter"; "combo" when plots of several types share the chart */
+  kind: string;
+  title: string;
+  /** Category labels shared by the series (x values for scatter and bubble charts) */
+  categories: string[];
+  series: ChartSeries[];
+  /** Id of the graphic frame holding the chart */
+  shapeId?: number;
+  /** Chart part, e.g. "ppt/charts/chart1.xml" */
+  partPath?: string;
+}
+
+export interface ChartSeries {
+  name: string;
+  /** Plot type of the series, differs between series of combo charts */
+  kind: string;
+  /** Cached values (c:numCache) by category index; null where a point is missing */
+  values: (number | null)[];
+}
+
+export interface DiagramInfo {
+  /** Layout id, e.g. "urn:microsoft.com/office/officeart/2005/8/layout/process1" */
+  layout?: string;
+  /** Top-level points of the diagram, in order */
+  nodes: DiagramNode[];
+  /** Id of the graphic frame holding the diagram */
+  shapeId?: number;
+  /** Diagram data part, e.g. "ppt/diagrams/data1.xml" */
+  partPath?: string;
+}
+
+export interface DiagramNode {
+  /** dgm:pt modelId */
+  id: string;
+  text: string;
+  /** Assistant node (org charts) */
+  assistant?: boolean;
+  children: DiagramNode[];
+}
+
+export interface CommentInfo {
+  author: string;
+  initials?: string;
+  /** Timestamp as stored in the file, e.g. "2024-03-05T14:22:10.123" (local time for legacy comments) */
+  date?: string;
+  text: string;
+  /** Anchor on the slide, in points from the top-left corner */
+  position?: { x: number; y: number };
+  /** Modern comments only: the thread has been marked resolved */
+  resolved?: boolean;
+  replies?: CommentInfo[];
+}
+
+export interface TransitionInfo {
+  /** Effect name, e.g. "fade", "push", "vortex"; "none" when only advance settings are set */
+  type: string;
+  /** Direction or variant of the effect, e.g. "l" or "horz" */
+  direction?: string;
+  speed?: 'slow' | 'med' | 'fast';
+  /** Effect duration in milliseconds (p14:dur) */
+  duration?: number;
+  /** Advance to the next slide on mouse click */
+  advanceOnClick: boolean;
+  /** Advance automatically after this many milliseconds */
+  advanceAfter?: number;
+}
+
+export interface AnimationStep {
+  /** Index of the click that starts the step; 0 for steps that play when the slide opens */
+  click: number;
+  trigger: AnimationTrigger;
+  /** Shape that animates */
+  shapeId?: number;
+  shapeName?: string;
+  /** Paragraph range for text builds, indices inclusive */
+  paragraphs?: { start: number; end: number };
+  effectClass: AnimationEffectClass;
+  /** Preset effect name, e.g. "fly"; "preset N" when the preset is unknown */
+  effect: string;
+  presetId?: number;
+  /** Delay after the trigger, in milliseconds */
+  delay: number;
+  /** Effect duration in milliseconds */
+  duration?: number;
+  /** Interactive steps: the shape whose click starts the step */
+  triggerShapeId?: number;
+}
+
+export type AnimationTrigger = 'onClick' | 'withPrevious' | 'afterPrevious' | 'onShapeClick';
+
+export type AnimationEffectClass = 'entrance' | 'exit' | 'emphasis' | 'path' | 'verb' | 'media';
+
+export interface EmbeddedObjectRef {
+  /** Object id (exObjId, PPT only) */
+  objectId?: number;
+  name?: string;
+  /** OLE ProgID, e.g. "Excel.Sheet.12" */
+  progId?: string;
+  shapeId?: number;
+  /** Package part path of the embedded file (PPTX) */
+  partPath?: string;
+}
+
+/**
+ * Embedded OLE object or package. OLE wrappers around Office documents
+ * are unwrapped, so name, extension and data describe the document itself.
+ */
+export interface EmbeddedObjectInfo {
+  name: string;
+  kind: EmbeddedObjectKind;
+  progId?: string;
+  extension: string;
+  size: number;
+  data?: string; // Base64 encoded
+  path?: string; // Package part path, e.g. "ppt/embeddings/oleObject1.bin"
+  /** Numbers of the slides the object sits on */
+  slides: number[];
+  /** Extracted content of an embedded presentation */
+  presentation?: ExtractedPresentation;
+}
+
+export type EmbeddedObjectKind = 'workbook' | 'document' | 'presentation' | 'package' | 'ole';
+
 export interface MediaInfo {
   name: string;
   type: string;
   size: number;
   data?: string; // Base64 encoded
   extension: string;
+  path?: string; // Package part path, e.g. "ppt/media/image1.png"
+}
+
+/**
+ * Video or audio shown on a slide. Linked media lives outside the presentation
+ * and is missing when the file is moved without it.
+ */
+export interface MediaUsage {
+  kind: 'video' | 'audio';
+  /** File name of the embedded media, or of the linked file */
+  name: string;
+  /** Package part path (embedded), or the link target as stored: a path or URL (external) */
+  target?: string;
+  /** Linked with TargetMode="External" (PPTX) or a linked movie/sound (PPT) */
+  external?: boolean;
+  shapeId?: number;
+  shapeName?: string;
+  /** Name of the poster frame image in media */
+  posterFrame?: string;
+  /** Playback range cut off the start and the end, in milliseconds (p14:trim) */
+  trimStart?: number;
+  trimEnd?: number;
+  /** Position playback starts from, in milliseconds (playFrom command in p:timing; PPTX only) */
+  startAt?: number;
+  /** Delay between the play trigger and the start of playback, in milliseconds (PPTX only) */
+  startDelay?: number;
 }
 
 export interface TableInfo {
   rows: number;
   columns: number;
+  /** Cell text, one entry per grid position; positions covered by a merged cell are empty */
   cells: string[][];
+  /** Cell model on the same grid as cells (PPTX only) */
+  grid?: TableCell[][];
+  /** Column widths in points (a:gridCol) */
+  columnWidths?: number[];
+  /** The first row is formatted as a header row (a:tblPr firstRow) */
+  headerRow?: boolean;
+  /** The first column is formatted differently (a:tblPr firstCol) */
+  firstColumn?: boolean;
+}
+
+export interface TableCell {
+  text: string;
+  /** Columns and rows spanned by a merged cell (gridSpan, rowSpan); 1 when not merged */
+  colSpan: number;
+  rowSpan: number;
+  /** Covered by the merged cell to the left (hMerge) or above (vMerge); rendered as part of it */
+  merged?: boolean;
+  /** Fill color as hex, with theme colors resolved */
+  fill?: string;
 }
 
 export interface PresentationMetadata {
@@ -59,7 +388,7 @@ export interface ExtractedPresentation {
   id: string;
   fileName: string;
   fileSize: number;
-  fileType: 'pptx' | 'ppt';
+  fileType: PresentationFileType;
   extractedAt: string;
   metadata: PresentationMetadata;
   slides: SlideContent[];
@@ -67,12 +396,223 @@ export interface ExtractedPresentation {
   themes: ThemeInfo[];
   masterSlides: string[];
   customProperties: Record<string, string>;
+  /** Slide numbers using each media file, keyed by media name */
+  mediaUsage?: Record<string, number[]>;
+  /** Slide masters with their layouts; masterSlides holds their names */
+  masters?: MasterInfo[];
+  /** Sections in presentation order (PPTX only) */
+  sections?: SectionInfo[];
+  /** Custom (named) slide shows */
+  customShows?: CustomShowInfo[];
+  /** Embedded OLE objects and Office documents */
+  embeddings?: EmbeddedObjectInfo[];
+  /** Embedded fonts and the typefaces used by text */
+  fonts?: FontReport;
+  /** VBA macro project of macro-enabled files */
+  macros?: VbaProjectInfo;
+  /** Slide and notes page sizes, numbering and slide show settings */
+  properties?: PresentationProperties;
+}
+
+/**
+ * Presentation-wide settings (p:presentation and ppt/presProps.xml in PPTX, DocumentAtom and
+ * SlideShowDocInfoAtom in PPT). metadata.presentationFormat only names the format.
+ */
+export interface PresentationProperties {
+  /** Slide canvas size */
+  slideSize: PageSize;
+  /** Notes page size */
+  notesSize?: PageSize;
+  /** Number shown on the first slide */
+  firstSlideNumber: number;
+  /** Right-to-left presentation */
+  rightToLeft: boolean;
+  show?: SlideShowSettings;
+}
+
+export interface PageSize {
+  /** Width and height in EMU (PPT master units are scaled by 1587.5) */
+  width: number;
+  height: number;
+  /** Size preset (ST_SlideSizeType), e.g. "screen4x3", "screen16x9", "A4" or "custom" */
+  type?: string;
+}
+
+export interface SlideShowSettings {
+  /** Shown by a speaker (full screen), browsed by an individual (window) or at a kiosk (full screen) */
+  mode: 'presenter' | 'browse' | 'kiosk';
+  /** Loop until Esc is pressed */
+  loop: boolean;
+  /** Advance slides using the saved timings */
+  useTimings: boolean;
+  showNarration: boolean;
+  /** Kiosk mode restarts after this much inactivity, in milliseconds */
+  restartTime?: number;
+  /** Pen color, e.g. "#FF0000" */
+  penColor?: string;
+  /** Range of slides shown, when not all slides are */
+  slideRange?: { start: number; end: number };
+  /** Name of the custom show shown instead of all slides */
+  customShow?: string;
+}
+
+export interface FontReport {
+  embedded: EmbeddedFontInfo[];
+  /** Typefaces used by text runs, most used first */
+  used: FontUsage[];
+}
+
+export interface EmbeddedFontInfo {
+  typeface: string;
+  styles: EmbeddedFontStyle[];
+  /** Package parts holding the font data, e.g. "ppt/fonts/font1.fntdata" (PPTX only) */
+  parts?: string[];
+}
+
+export type EmbeddedFontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+export interface FontUsage {
+  typeface: string;
+  /** Scripts the typeface is used for */
+  scripts: FontScript[];
+  /** Number of runs set in the typeface */
+  runs: number;
+  /** Runs per slide, keyed by slide number */
+  slides: Record<number, number>;
+  /** The file embeds the font */
+  embedded: boolean;
+  /** The typeface is one of the theme fonts; absent for files without themes (PPT) */
+  themeFont?: boolean;
+}
+
+export type FontScript = 'latin' | 'eastAsian' | 'complexScript';
+
+export interface VbaProjectInfo {
+  name?: string;
+  /** Where the project was found: ppt/vbaProject.bin, or the VBA storage of a .ppt */
+  source: string;
+  modules: VbaModuleInfo[];
+  /** Procedures run automatically, as "Module.Procedure" */
+  autoExec: string[];
+}
+
+export interface VbaModuleInfo {
+  name: string;
+  /** Standard (procedural) module, or class module (including document modules and forms) */
+  type: 'standard' | 'class';
+  /** Decompressed source code */
+  code?: string;
+  /** Auto-exec procedures declared in the module, e.g. "Auto_Open" */
+  autoExec?: string[];
+}
+
+/**
+ * Open XML variants (pptx: presentation, ppsx: show, potx: template, *m: macro-enabled, thmx: Office theme)
+ * and their binary counterparts (ppt, pps, pot)
+ */
+export type PresentationFileType =
+  | 'pptx' | 'pptm' | 'potx' | 'potm' | 'ppsx' | 'ppsm' | 'thmx'
+  | 'ppt' | 'pps' | 'pot';
+
+export interface SectionInfo {
+  name: string;
+  /** Section GUID */
+  id?: string;
+  /** Numbers of the slides in the section */
+  slides: number[];
+}
+
+export interface CustomShowInfo {
+  name: string;
+  id?: number;
+  /** Slide numbers in show order; a slide may appear more than once */
+  slides: number[];
+}
+
+export interface MasterInfo {
+  /** p:cSld name, falling back to the theme name (PPTX) or "Master N" */
+  name: string;
+  /** Package part, e.g. "ppt/slideMasters/slideMaster1.xml" (PPTX only) */
+  partPath?: string;
+  /** Name of the theme the master uses */
+  theme?: string;
+  placeholders: PlaceholderInfo[];
+  layouts: LayoutInfo[];
+}
+
+export interface LayoutInfo {
+  name: string;
+  /** ST_SlideLayoutType, e.g. "title", "obj", "twoObj", "blank"; PPT layout types map to the same values */
+  type?: string;
+  /** Package part, e.g. "ppt/slideLayouts/slideLayout2.xml" (PPTX only) */
+  partPath?: string;
+  placeholders: PlaceholderInfo[];
+  /** Numbers of the slides based on this layout */
+  slides: number[];
+}
+
+export interface PlaceholderInfo {
+  /** ST_PlaceholderType, e.g. "title", "body", "dt", "sldNum"; "obj" when the file leaves it out */
+  type: string;
+  /** Placeholder index (p:ph idx) matching slide placeholders to layout placeholders */
+  index?: number;
+  /** Shape name */
+  name?: string;
 }
 
 export interface ThemeInfo {
   name: string;
-  colors: string[];
-  fonts: string[];
+  /** Package part path, e.g. "ppt/theme/theme1.xml" */
+  partPath?: string;
+  /** Name of the color scheme (a:clrScheme) */
+  colorScheme?: string;
+  /** Color scheme slots as hex, e.g. { accent1: "#4472C4" } */
+  colors: ThemeColors;
+  /** Name of the font scheme (a:fontScheme) */
+  fontScheme?: string;
+  /** Typefaces of the font scheme */
+  fonts: ThemeFonts;
+}
+
+export type ThemeColorSlot =
+  | 'dk1' | 'lt1' | 'dk2' | 'lt2'
+  | 'accent1' | 'accent2' | 'accent3' | 'accent4' | 'accent5' | 'accent6'
+  | 'hlink' | 'folHlink';
+
+export type ThemeColors = Partial<Record<ThemeColorSlot, string>>;
+
+export interface ThemeFonts {
+  /** Headings */
+  major?: string;
+  /** Body text */
+  minor?: string;
+  /** East Asian and complex script typefaces, where the scheme sets them */
+  majorEastAsian?: string;
+  minorEastAsian?: string;
+  majorComplexScript?: string;
+  minorComplexScript?: string;
+}
+
+/**
+ * Slide background with theme colors resolved
+ */
+export interface BackgroundInfo {
+  type: 'solid' | 'gradient' | 'image' | 'pattern' | 'none';
+  /** Hex color: the solid color, the first gradient stop or the pattern foreground */
+  color?: string;
+  /** Gradient stop colors in order */
+  colors?: string[];
+  /** Picture fills: name of the media file */
+  image?: string;
+  /** Part the background is defined on; slides without their own inherit it */
+  source: 'slide' | 'layout' | 'master';
+}
+
+export interface ExportOptions {
+  /** Include slides hidden from the slide show (default true); without them, media and objects only they use are left out too */
+  includeHiddenSlides?: boolean;
+  /** Include footer, date and slide number placeholder text (default true) */
+  includeFooters?: boolean;
 }
 
 export interface ExportFormat {